@@ -0,0 +1,260 @@
+/**
+ * HTTP TEST: Spawns the MCP server in streamable HTTP mode and talks to it
+ * with the SDK client over two connections.
+ * Tests: /health, per-connection default sessions, shared named sessions,
+ * declared output schemas and tool descriptions, replaying a recording with
+ * read-only calls in between, outcomes after synthesize, oversized and
+ * malformed bodies
+ */
+
+import assert from "assert";
+import { spawn, spawnSync } from "child_process";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+
+const recordDir = mkdtempSync(join(tmpdir(), "dream-http-record-"));
+const recording = join(recordDir, "run.jsonl");
+
+const server = spawn(
+  "node",
+  [
+    "dist/index.js",
+    "--transport",
+    "http",
+    "--port",
+    "0",
+    "--record",
+    recording,
+  ],
+  { stdio: ["ignore", "pipe", "pipe"] },
+);
+
+// The server prints its URL once listening; port 0 picks a free one
+const url = await new Promise((resolve, reject) => {
+  let stderr = "";
+  const timer = setTimeout(
+    () => reject(new Error("Server didn't start")),
+    10000,
+  );
+  server.stderr.on("data", (data) => {
+    stderr += data.toString();
+    const match = stderr.match(/running at (\S+)/);
+    if (match) {
+      clearTimeout(timer);
+      resolve(new URL(match[1]));
+    }
+  });
+  server.on("exit", (code) => reject(new Error(`Server exited (${code})`)));
+});
+
+function show(label, result) {
+  console.log(`\n📥 ${label}:`);
+  console.log(result.content[0].text);
+}
+
+async function connect(name) {
+  const client = new Client({ name, version: "1.0.0" });
+  const transport = new StreamableHTTPClientTransport(url);
+  await client.connect(transport);
+  return { client, transport };
+}
+
+async function health() {
+  const res = await fetch(new URL("/health", url));
+  console.log(`\n📥 GET /health → ${res.status}`);
+  console.log(JSON.stringify(await res.json(), null, 2));
+}
+
+async function runTest() {
+  console.log("═".repeat(70));
+  console.log(`HTTP MCP SERVER TEST — ${url.href}`);
+  console.log("═".repeat(70));
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 1: Health before any connection");
+  console.log("─".repeat(70));
+
+  await health();
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 2: Two connections dream without a sessionId");
+  console.log("─".repeat(70));
+
+  const alice = await connect("alice");
+  const bob = await connect("bob");
+  console.log(`\nalice connection: ${alice.transport.sessionId}`);
+  console.log(`bob connection:   ${bob.transport.sessionId}`);
+
+  const call = (who, name, args) =>
+    who.client.callTool({ name, arguments: args });
+
+  show("alice dream", await call(alice, "dream", { concept: "bridges" }));
+  show("bob dream", await call(bob, "dream", { concept: "sourdough" }));
+  show(
+    "alice dream (step 2 of her own path)",
+    await call(alice, "dream", { concept: "suspension cables humming" }),
+  );
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 3: A named session is shared across connections");
+  console.log("─".repeat(70));
+
+  show(
+    "alice dream in team session",
+    await call(alice, "dream", { sessionId: "team", concept: "tide tables" }),
+  );
+  show(
+    "bob continues the team session",
+    await call(bob, "dream", {
+      sessionId: "team",
+      concept: "migrating birds",
+      chaosLevel: 0.8,
+    }),
+  );
+  show("session list", await call(bob, "dream_session", { action: "list" }));
+
+  await health();
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 4: Tools declare versioned output schemas");
+  console.log("─".repeat(70));
+
+  const { tools } = await alice.client.listTools();
+  for (const tool of tools.filter((t) => t.outputSchema)) {
+    const { properties, required } = tool.outputSchema;
+    console.log(
+      `\n${tool.name}: schemaVersion ${properties.schemaVersion.const}, ${required.length} required fields`,
+    );
+  }
+  const versions = Object.fromEntries(
+    tools.map((t) => [t.name, t.outputSchema?.properties.schemaVersion.const]),
+  );
+  assert.equal(versions.dream, 1);
+  assert.equal(versions.dreamcheck, 2);
+
+  // Descriptions reach clients as written, without source indentation
+  const dream = tools.find((t) => t.name === "dream");
+  assert.equal(
+    dream.description.split("\n")[1],
+    "The Yin to Sequential Thinking's Yang.",
+  );
+
+  // The client validates structuredContent against the declared schema
+  show(
+    "alice dreamcheck (validated by the client)",
+    await call(alice, "dreamcheck", { topic: "bridges", attempts: 2 }),
+  );
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 5: Read-only calls between recorded ones");
+  console.log("─".repeat(70));
+
+  // Stats and exports aren't recorded, so they mustn't create sessions or
+  // use up seeded ids: the session created after them has to replay as is
+  show(
+    "bob synthesize (closes his session)",
+    await call(bob, "synthesize", {
+      insight: "Bread rises like a bridge sags",
+      drawsOn: [1],
+    }),
+  );
+  show("bob dream_stats", await call(bob, "dream_stats", {}));
+  show("bob export", await call(bob, "export_dream", {}));
+  show(
+    "bob creates a session",
+    await call(bob, "dream_session", { action: "create" }),
+  );
+  show(
+    "bob dream (fresh session)",
+    await call(bob, "dream", { concept: "yeast" }),
+  );
+  show("bob dream_stats", await call(bob, "dream_stats", {}));
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 6: Reporting an outcome after synthesize");
+  console.log("─".repeat(70));
+
+  // The outcome, and the export after it, go to the session just closed
+  const closing = await call(alice, "synthesize", {
+    insight: "Cables hum at the bridge's resonant frequency",
+    drawsOn: [2],
+  });
+  show("alice synthesize", closing);
+  for (const [name, args] of [
+    ["dream_outcome", { topic: "bridges", outcome: "resolved" }],
+    ["export_dream", {}],
+    ["dream_stats", {}],
+  ]) {
+    const result = await call(alice, name, args);
+    show(`alice ${name}`, result);
+    assert.ok(!result.isError, `${name} after synthesize failed`);
+  }
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 7: Oversized and malformed request bodies");
+  console.log("─".repeat(70));
+
+  const post = async (body) => {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+      },
+      body,
+    });
+    const { error } = await res.json();
+    console.log(
+      `\n📥 POST ${body.length} bytes → ${res.status} ${error.message}`,
+    );
+    return res.status;
+  };
+  assert.equal(await post(" ".repeat(5 * 1024 * 1024)), 413);
+  assert.equal(await post("{not json"), 400);
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 8: Closing a connection");
+  console.log("─".repeat(70));
+
+  await alice.transport.terminateSession();
+  await alice.client.close();
+  await health();
+
+  await bob.client.close();
+
+  server.kill();
+  await new Promise((resolve) => server.once("exit", resolve));
+  const replay = spawnSync("node", ["dist/replay.js", recording], {
+    encoding: "utf8",
+  });
+  console.log("\n" + replay.stdout + replay.stderr);
+  assert.equal(replay.status, 0, "replay of this run differs");
+
+  console.log("\n" + "═".repeat(70));
+  console.log("TEST COMPLETE");
+  console.log("═".repeat(70));
+}
+
+runTest()
+  .then(() => {
+    server.kill();
+    rmSync(recordDir, { recursive: true, force: true });
+    process.exit(0);
+  })
+  .catch((err) => {
+    console.error("Test failed:", err);
+    server.kill();
+    rmSync(recordDir, { recursive: true, force: true });
+    process.exit(1);
+  });
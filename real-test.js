@@ -1,11 +1,20 @@
 /**
  * REAL TEST: Actually spawns the MCP server and sends JSON-RPC over stdio
- * Tests: dreamcheck progression, dream drifts, stuck detection, returns
+ * Tests: dreamcheck progression, dream drifts, stuck detection, returns,
+ * word-vector distances
  */
 
-import { spawn } from "child_process";
+import assert from "assert";
+import { spawn, spawnSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 
-const server = spawn("node", ["dist/index.js"], {
+// Every state-changing call is recorded, and replayed at the end
+const recordDir = mkdtempSync(join(tmpdir(), "dream-record-"));
+const recording = join(recordDir, "run.jsonl");
+
+const server = spawn("node", ["dist/index.js", "--record", recording], {
   stdio: ["pipe", "pipe", "pipe"],
 });
 
@@ -55,6 +64,44 @@ function send(method, params) {
 
 const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
 
+// A one-off server with its own flags: sends it the calls over stdin and
+// returns the tools/call results in order, or the process if it failed
+function runServer(args, calls) {
+  const requests = [
+    {
+      jsonrpc: "2.0",
+      id: 0,
+      method: "initialize",
+      params: {
+        protocolVersion: "2024-11-05",
+        capabilities: {},
+        clientInfo: { name: "test", version: "1.0.0" },
+      },
+    },
+    ...calls.map(([name, args], i) => ({
+      jsonrpc: "2.0",
+      id: i + 1,
+      method: "tools/call",
+      params: { name, arguments: args },
+    })),
+  ];
+  const run = spawnSync("node", ["dist/index.js", ...args], {
+    input: requests.map((r) => JSON.stringify(r)).join("\n") + "\n",
+    encoding: "utf8",
+    timeout: 10000,
+    env: { ...process.env, DISABLE_DREAM_LOGGING: "true" },
+  });
+  if (run.status !== 0) return { run, results: [] };
+  const results = run.stdout
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line))
+    .filter((response) => response.id > 0)
+    .sort((a, b) => a.id - b.id)
+    .map((response) => response.result);
+  return { run, results };
+}
+
 async function runTest() {
   console.log("═".repeat(70));
   console.log("REAL MCP SERVER TEST - COMPREHENSIVE");
@@ -228,11 +275,476 @@ async function runTest() {
   });
   await sleep(300);
 
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 9: Parallel sessions stay isolated");
+  console.log("─".repeat(70));
+
+  send("tools/call", {
+    name: "dream_session",
+    arguments: { action: "create", sessionId: "naming" },
+  });
+  await sleep(200);
+
+  send("tools/call", {
+    name: "dream",
+    arguments: { sessionId: "naming", concept: "product names" },
+  });
+  await sleep(200);
+
+  // Default session path should be untouched by the "naming" session
+  send("tools/call", {
+    name: "dream",
+    arguments: { concept: "hospice volunteers", chaosLevel: 0.6 },
+  });
+  await sleep(200);
+
+  send("tools/call", {
+    name: "dream",
+    arguments: {
+      sessionId: "naming",
+      concept: "river deltas",
+      chaosLevel: 0.8,
+      reset: true,
+    },
+  });
+  await sleep(200);
+
+  send("tools/call", {
+    name: "dream_session",
+    arguments: { action: "close", sessionId: "naming" },
+  });
+  await sleep(200);
+
+  send("tools/call", {
+    name: "dream_session",
+    arguments: { action: "list" },
+  });
+  await sleep(300);
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 10: Dream paths as resources");
+  console.log("─".repeat(70));
+
+  send("resources/list", {});
+  await sleep(200);
+
+  send("resources/read", { uri: "dream://sessions" });
+  await sleep(200);
+
+  send("resources/read", { uri: "dream://session/naming/path" });
+  await sleep(300);
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 11: Session vocabulary teaches domain synonyms");
+  console.log("─".repeat(70));
+
+  send("tools/call", {
+    name: "dream",
+    arguments: { sessionId: "infra", concept: "k8s rollout" },
+  });
+  await sleep(200);
+
+  send("tools/call", {
+    name: "dream_vocabulary",
+    arguments: {
+      sessionId: "infra",
+      action: "add",
+      clusters: [["kubernetes", "k8s", "orchestration"]],
+    },
+  });
+  await sleep(200);
+
+  // Same leap as before the cluster existed - should now read as near-identical
+  send("tools/call", {
+    name: "dream",
+    arguments: {
+      sessionId: "infra",
+      concept: "kubernetes rollout",
+      chaosLevel: 0.6,
+    },
+  });
+  await sleep(300);
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 12: Returns must match an earlier concept");
+  console.log("─".repeat(70));
+
+  send("tools/call", {
+    name: "dream",
+    arguments: { concept: "tide pools", isReturn: true, returnsTo: "volcano" },
+  });
+  await sleep(200);
+
+  // Close wording (extra stop word) still matches "hospice volunteers"
+  send("tools/call", {
+    name: "dream",
+    arguments: {
+      concept: "volunteers as tide pools",
+      isReturn: true,
+      returnsTo: "the hospice volunteers",
+    },
+  });
+  await sleep(200);
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 13: Fork a branch and switch back");
+  console.log("─".repeat(70));
+
+  send("tools/call", {
+    name: "dream",
+    arguments: {
+      concept: "bees dancing directions",
+      chaosLevel: 0.9,
+      branchFrom: "mourning a loved one",
+    },
+  });
+  await sleep(200);
+
+  send("tools/call", {
+    name: "dream_branch",
+    arguments: { action: "switch", branchId: "main" },
+  });
+  await sleep(200);
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 14: Export the default session as Markdown and Mermaid");
+  console.log("─".repeat(70));
+
+  send("tools/call", {
+    name: "export_dream",
+    arguments: {},
+  });
+  await sleep(200);
+
+  send("tools/call", {
+    name: "export_dream",
+    arguments: { sessionId: "naming", format: "mermaid" },
+  });
+  await sleep(300);
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 15: Adaptive calibration after repeated small leaps");
+  console.log("─".repeat(70));
+
+  for (const concept of [
+    "slow database query",
+    "slow database index",
+    "slow database queries",
+    "slow database indexes",
+  ]) {
+    send("tools/call", {
+      name: "dream",
+      arguments: { sessionId: "calibration", concept, chaosLevel: 0.8 },
+    });
+    await sleep(200);
+  }
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 16: Oscillation and an unannounced return");
+  console.log("─".repeat(70));
+
+  for (const concept of [
+    "ocean tides",
+    "tax accounting",
+    "ocean tides",
+    "tax accounting",
+    "volcano lava",
+    "ocean tides",
+  ]) {
+    send("tools/call", {
+      name: "dream",
+      arguments: { sessionId: "loops", concept, chaosLevel: 0.8 },
+    });
+    await sleep(200);
+  }
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 17: Synthesize an insight, then list insights by topic");
+  console.log("─".repeat(70));
+
+  send("tools/call", {
+    name: "synthesize",
+    arguments: {
+      sessionId: "loops",
+      insight:
+        "Money moves like water: budgets have tides, and a volcano is what happens when pressure is never released",
+      drawsOn: [2, "volcano lava"],
+      topic: "ocean tides",
+    },
+  });
+  await sleep(200);
+
+  // Closed now, so this is rejected
+  send("tools/call", {
+    name: "dream",
+    arguments: { sessionId: "loops", concept: "river deltas" },
+  });
+  await sleep(200);
+
+  send("tools/call", {
+    name: "synthesize",
+    arguments: { action: "list", topic: "the ocean tides" },
+  });
+  await sleep(200);
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 18: Dreamcheck groups close topics and errors");
+  console.log("─".repeat(70));
+
+  send("tools/call", {
+    name: "dreamcheck",
+    arguments: {
+      sessionId: "grouping",
+      topic: "auth bug",
+      errors: ["TypeError: x is undefined at line 12"],
+    },
+  });
+  await sleep(200);
+
+  send("tools/call", {
+    name: "dreamcheck",
+    arguments: {
+      sessionId: "grouping",
+      topic: "login auth bug",
+      errors: [
+        "TypeError: x is undefined at line 14",
+        "Error: ENOENT: no such file or directory, open '/srv/app/a.json'",
+      ],
+    },
+  });
+  await sleep(200);
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 19: Stats for one closed session, then across all");
+  console.log("─".repeat(70));
+
+  send("tools/call", {
+    name: "dream_stats",
+    arguments: { sessionId: "loops" },
+  });
+  await sleep(200);
+
+  send("tools/call", {
+    name: "dream_stats",
+    arguments: { scope: "all" },
+  });
+  await sleep(200);
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 20: Workflow prompts");
+  console.log("─".repeat(70));
+
+  send("prompts/list", {});
+  await sleep(200);
+
+  send("prompts/get", {
+    name: "unstick-bug",
+    arguments: {
+      topic:
+        "Websocket drops every 30s behind the proxy; raised timeouts twice",
+      chaos: "0.8",
+      sessionId: "bug",
+    },
+  });
+  await sleep(200);
+
+  // Out of range, so rejected
+  send("prompts/get", {
+    name: "brainstorm-names",
+    arguments: { topic: "a CLI for log search", chaos: "2" },
+  });
+  await sleep(200);
+
+  // =========================================================================
+  console.log("\n" + "─".repeat(70));
+  console.log("TEST 21: Multi-concept collision with a tension matrix");
+  console.log("─".repeat(70));
+
+  send("tools/call", {
+    name: "dream",
+    arguments: { sessionId: "gutenberg", concept: "spreading ideas cheaply" },
+  });
+  await sleep(200);
+
+  // "coin stamping" adds nothing to "coin stamps", so one should be flagged
+  send("tools/call", {
+    name: "dream",
+    arguments: {
+      sessionId: "gutenberg",
+      concept: "wine press",
+      isCollision: true,
+      collidesWith: ["coin stamps", "movable type", "coin stamping"],
+    },
+  });
+  await sleep(200);
+
+  console.log("\n" + "═".repeat(70));
+  console.log("TEST 22: Non-English concepts");
+  console.log("─".repeat(70));
+
+  // Plural and singular of the same house should sit close together
+  for (const concept of [
+    "das alte Haus",
+    "die alten Häuser",
+    "苹果和香蕉",
+    "香蕉和苹果",
+  ]) {
+    send("tools/call", {
+      name: "dream",
+      arguments: { sessionId: "sprachen", concept },
+    });
+    await sleep(200);
+  }
+
+  console.log("\n" + "═".repeat(70));
+  console.log("TEST 23: Reporting whether dreaming helped");
+  console.log("─".repeat(70));
+
+  send("tools/call", {
+    name: "dreamcheck",
+    arguments: {
+      sessionId: "outcomes",
+      topic: "flaky login test",
+      attempts: 4,
+      sentiment: "stuck",
+    },
+  });
+  await sleep(200);
+
+  send("tools/call", {
+    name: "dream_outcome",
+    arguments: {
+      sessionId: "outcomes",
+      topic: "flaky login tests",
+      outcome: "resolved",
+    },
+  });
+  await sleep(200);
+
+  // Never checked, so there is nothing to credit
+  send("tools/call", {
+    name: "dream_outcome",
+    arguments: { sessionId: "outcomes", topic: "css grid", outcome: "partial" },
+  });
+  await sleep(200);
+
+  console.log("\n" + "═".repeat(70));
+  console.log("TEST 24: Plain, compact and JSON text");
+  console.log("─".repeat(70));
+
+  for (const [concept, render] of [
+    ["paper cut", "plain"],
+    ["glacier calving", "compact"],
+    ["origami crane", "json"],
+  ]) {
+    send("tools/call", {
+      name: "dream",
+      arguments: { sessionId: "styles", concept, chaosLevel: 0.8, render },
+    });
+    await sleep(200);
+  }
+
+  send("tools/call", {
+    name: "dreamcheck",
+    arguments: {
+      sessionId: "styles",
+      topic: "paper cut",
+      attempts: 5,
+      sentiment: "frustrated",
+      render: "plain",
+    },
+  });
+  await sleep(200);
+
+  send("tools/call", {
+    name: "dreamcheck",
+    arguments: { sessionId: "styles", topic: "paper cut", render: "compact" },
+  });
+  await sleep(200);
+
+  console.log("\n" + "═".repeat(70));
+  console.log("TEST 25: Seeded session, then replaying this whole run");
+  console.log("─".repeat(70));
+
+  send("tools/call", {
+    name: "dream_session",
+    arguments: { action: "create", sessionId: "tides", seed: "moon" },
+  });
+  await sleep(200);
+
+  send("tools/call", {
+    name: "dream",
+    arguments: { sessionId: "tides", concept: "spring tides" },
+  });
+  await sleep(200);
+
+  server.kill();
+  await new Promise((resolve) => server.once("exit", resolve));
+  const replay = spawnSync("node", ["dist/replay.js", recording], {
+    encoding: "utf8",
+  });
+  console.log(replay.stdout + replay.stderr);
+  console.log(`Replay exit code: ${replay.status}`);
+  rmSync(recordDir, { recursive: true, force: true });
+
+  console.log("\n" + "═".repeat(70));
+  console.log("TEST 26: Word-vector distances, with lexical fallback");
+  console.log("─".repeat(70));
+
+  const vectorsDir = mkdtempSync(join(tmpdir(), "dream-vectors-"));
+  const vectors = join(vectorsDir, "vectors.txt");
+  writeFileSync(
+    vectors,
+    [
+      "3 3", // fastText header
+      "ocean 1 0 0",
+      "sea 0.95 0.05 0",
+      "piano 0 0 1",
+    ].join("\n"),
+  );
+
+  const { results } = runServer(
+    ["--metric", "vector", "--vectors", vectors],
+    [
+      ["dream", { concept: "ocean" }],
+      ["dream", { concept: "sea" }],
+      ["dream", { concept: "piano" }],
+      ["dream", { concept: "quasar" }], // no vector: measured lexically
+    ],
+  );
+  for (const result of results) console.log(result.content[0].text);
+  const [, near, far, unknown] = results.map((r) => r.structuredContent);
+  assert.equal(near.surfaceMetric, "vector");
+  assert.ok(near.distance < 0.05, `ocean → sea: ${near.distance}`);
+  assert.equal(far.surfaceMetric, "vector");
+  assert.ok(far.distance > 0.9, `sea → piano: ${far.distance}`);
+  assert.equal(unknown.surfaceMetric, "lexical");
+
+  const noFile = runServer(["--metric", "vector"], []).run;
+  assert.notEqual(noFile.status, 0);
+  assert.match(noFile.stderr, /needs a word-vector file/);
+  const unknownMetric = runServer(["--metric", "cosine"], []).run;
+  assert.notEqual(unknownMetric.status, 0);
+  assert.match(unknownMetric.stderr, /Unknown distance metric "cosine"/);
+  console.log("\n✓ Vector metric, fallback and config errors as expected");
+  rmSync(vectorsDir, { recursive: true, force: true });
+
   console.log("\n" + "═".repeat(70));
   console.log("TEST COMPLETE");
   console.log("═".repeat(70));
 
-  server.kill();
   process.exit(0);
 }
 
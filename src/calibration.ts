@@ -0,0 +1,154 @@
+import type { Calibration } from "./lib.js";
+import { formatMessage, MESSAGES, type MessageCatalog } from "./messages.js";
+
+// ============================================================================
+// CALIBRATION
+// ============================================================================
+
+// How far a leap may miss the requested chaosLevel and still be on target
+export const CALIBRATION_BAND = 0.25;
+
+export function calibrate(distance: number, chaos: number): Calibration {
+  const diff = distance - chaos;
+  return diff < -CALIBRATION_BAND
+    ? "conservative"
+    : diff > CALIBRATION_BAND
+      ? "wild"
+      : "on-target";
+}
+
+// ============================================================================
+// ADAPTIVE CALIBRATION
+// ============================================================================
+
+export type CalibrationPatternType =
+  "conservative-streak" | "wild-streak" | "oscillating" | "ignoring-feedback";
+
+export interface CalibrationPattern {
+  type: CalibrationPatternType;
+  steps: number[];
+  message: string;
+}
+
+export interface CalibrationReport {
+  samples: number;
+  bias: number | null; // achieved distance minus requested chaos, recent-weighted
+  nextChaosLevel: number | null; // chaosLevel that should land on target
+  patterns: CalibrationPattern[];
+}
+
+export interface CalibrationSample {
+  step: number;
+  chaosLevel: number;
+  distance: number;
+  calibration: Calibration;
+}
+
+// Recent leaps count more: each older sample weighs (1 - BIAS_ALPHA) less
+const BIAS_ALPHA = 0.3;
+const MIN_SAMPLES = 2;
+const STREAK = 3;
+
+const round = (n: number): number => Math.round(n * 20) / 20;
+
+/**
+ * Estimate the model's systematic bias (does it leap shorter or further than
+ * it asks for?) and recommend the chaosLevel that compensates for it.
+ */
+export function analyzeCalibration(
+  samples: CalibrationSample[],
+  messages: MessageCatalog = MESSAGES,
+): CalibrationReport {
+  if (samples.length < MIN_SAMPLES) {
+    return {
+      samples: samples.length,
+      bias: null,
+      nextChaosLevel: null,
+      patterns: [],
+    };
+  }
+
+  let bias = samples[0].distance - samples[0].chaosLevel;
+  for (const s of samples.slice(1)) {
+    bias = BIAS_ALPHA * (s.distance - s.chaosLevel) + (1 - BIAS_ALPHA) * bias;
+  }
+  const last = samples[samples.length - 1];
+  const nextChaosLevel = Math.min(
+    1,
+    Math.max(0.05, round(last.chaosLevel - bias)),
+  );
+
+  return {
+    samples: samples.length,
+    bias,
+    nextChaosLevel,
+    patterns: detectPatterns(samples, messages),
+  };
+}
+
+function detectPatterns(
+  samples: CalibrationSample[],
+  messages: MessageCatalog,
+): CalibrationPattern[] {
+  const patterns: CalibrationPattern[] = [];
+  const last = samples[samples.length - 1];
+
+  // Same verdict several times running
+  let streak = 1;
+  while (
+    streak < samples.length &&
+    samples[samples.length - 1 - streak].calibration === last.calibration
+  ) {
+    streak++;
+  }
+  const streakSteps = samples.slice(-streak).map((s) => s.step);
+  if (streak >= STREAK && last.calibration === "conservative") {
+    patterns.push({
+      type: "conservative-streak",
+      steps: streakSteps,
+      message: formatMessage(messages, "pattern.conservative-streak", {
+        count: streak,
+      }),
+    });
+  } else if (streak >= STREAK && last.calibration === "wild") {
+    patterns.push({
+      type: "wild-streak",
+      steps: streakSteps,
+      message: formatMessage(messages, "pattern.wild-streak", {
+        count: streak,
+      }),
+    });
+  }
+
+  // Overcorrecting back and forth between too small and too big
+  const recent = samples.slice(-4);
+  if (
+    recent.length === 4 &&
+    recent.every((s) => s.calibration !== "on-target") &&
+    recent.every(
+      (s, i) => i === 0 || s.calibration !== recent[i - 1].calibration,
+    )
+  ) {
+    patterns.push({
+      type: "oscillating",
+      steps: recent.map((s) => s.step),
+      message: formatMessage(messages, "pattern.oscillating"),
+    });
+  }
+
+  // Told to leap harder, but didn't raise chaosLevel
+  const prev = samples[samples.length - 2];
+  if (
+    prev.calibration === "conservative" &&
+    last.calibration === "conservative" &&
+    last.chaosLevel <= prev.chaosLevel
+  ) {
+    patterns.push({
+      type: "ignoring-feedback",
+      steps: [prev.step, last.step],
+      message: formatMessage(messages, "pattern.ignoring-feedback"),
+    });
+  }
+
+  return patterns;
+}
@@ -0,0 +1,92 @@
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CollisionPair {
+  a: string;
+  b: string;
+  tension: number;
+}
+
+export interface Collision {
+  members: string[]; // the step's concept first, then what it collided with
+  matrix: number[][]; // symmetric pairwise tension, 0 on the diagonal
+  friction: number; // mean tension over every pair
+  mostTense: CollisionPair;
+  leastTense: CollisionPair;
+  // One of the least tense pair, when that pair is LOW tension. Only judged
+  // with three or more members, where dropping one still leaves a collision.
+  swapOut: { member: string; closestTo: string; tension: number } | null;
+}
+
+// Below this a pair (or a member's average) counts as LOW tension
+export const LOW_TENSION = 0.4;
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Measure every pair of colliding concepts. With two members this is the
+ * classic single collision: one pair, friction equal to its tension.
+ */
+export function collide(
+  members: string[],
+  distance: (a: string, b: string) => number,
+): Collision {
+  if (members.length < 2) {
+    throw new Error("A collision needs at least two concepts");
+  }
+
+  const n = members.length;
+  const matrix = members.map(() => Array<number>(n).fill(0));
+  const pairs: CollisionPair[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const tension = distance(members[i], members[j]);
+      matrix[i][j] = matrix[j][i] = tension;
+      pairs.push({ a: members[i], b: members[j], tension });
+    }
+  }
+
+  // Ties keep the earlier pair, so the step's own concept wins them
+  const mostTense = pairs.reduce((m, p) => (p.tension > m.tension ? p : m));
+  const leastTense = pairs.reduce((m, p) => (p.tension < m.tension ? p : m));
+  const friction = pairs.reduce((sum, p) => sum + p.tension, 0) / pairs.length;
+
+  // The step's own concept stays; otherwise the member that rubs least
+  // against everything else goes
+  let swapOut: Collision["swapOut"] = null;
+  if (n >= 3 && leastTense.tension < LOW_TENSION) {
+    const average = (m: string) => {
+      const row = matrix[members.indexOf(m)];
+      return row.reduce((a, b) => a + b, 0) / (n - 1);
+    };
+    const { a, b, tension } = leastTense;
+    const dropA = a !== members[0] && average(a) < average(b);
+    swapOut = dropA
+      ? { member: a, closestTo: b, tension }
+      : { member: b, closestTo: a, tension };
+  }
+
+  return { members, matrix, friction, mostTense, leastTense, swapOut };
+}
+
+// ============================================================================
+// TEXT
+// ============================================================================
+
+// Numbered members, then the matrix with members as row and column numbers
+export function matrixLines(collision: Collision): string[] {
+  const { members, matrix } = collision;
+  const cell = (v: number, i: number, j: number) =>
+    (i === j ? "—" : v.toFixed(2)).padStart(5);
+  return [
+    ...members.map((m, i) => `      ${i + 1}. ${m}`),
+    `      ${"".padStart(2)}${members.map((_, j) => `${j + 1}`.padStart(5)).join("")}`,
+    ...matrix.map(
+      (row, i) =>
+        `      ${`${i + 1}`.padStart(2)}${row.map((v, j) => cell(v, i, j)).join("")}`,
+    ),
+  ];
+}
@@ -0,0 +1,226 @@
+import { closeSync, openSync, readSync } from "node:fs";
+import { LANGUAGES, segmentWords } from "./language.js";
+import type { Vocabulary } from "./vocabulary.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Measures how far apart two concepts are: 0 = identical, 1 = unrelated.
+ * Returning null means the metric can't judge this pair (e.g. no vectors for
+ * any of its words) and the caller should fall back to the lexical metric.
+ */
+export interface DistanceMetric {
+  readonly name: string;
+  distance(a: string, b: string, vocabulary: Vocabulary): number | null;
+}
+
+// Words sharing a synonym cluster are treated as near-identical
+const CLUSTER_DISTANCE = 0.15;
+
+// ============================================================================
+// LEXICAL METRIC (the "dumb mirror")
+// ============================================================================
+
+export class LexicalMetric implements DistanceMetric {
+  readonly name = "lexical";
+
+  distance(a: string, b: string, vocabulary: Vocabulary): number {
+    const s1 = a.toLowerCase().trim();
+    const s2 = b.toLowerCase().trim();
+
+    if (s1 === s2) return 0;
+    if (!s1 || !s2) return 1;
+
+    // Get meaningful words (filter stop words), then stem - both sides in
+    // the same language
+    const language = vocabulary.languageFor(s1, s2);
+    const { stem, ngram } = LANGUAGES[language];
+    const words1 = vocabulary.contentWords(s1, language);
+    const words2 = vocabulary.contentWords(s2, language);
+
+    // If all words were stop words, use originals (stemmed)
+    const set1 = new Set(
+      words1.length > 0 ? words1 : segmentWords(s1, language).map(stem),
+    );
+    const set2 = new Set(
+      words2.length > 0 ? words2 : segmentWords(s2, language).map(stem),
+    );
+
+    // Check synonym clusters (on stemmed words)
+    if (vocabulary.sharesCluster(set1, set2, language)) {
+      return CLUSTER_DISTANCE;
+    }
+
+    // Word-level Jaccard (50% weight) - standard NLP metric
+    // Reference: https://www.learndatasci.com/glossary/jaccard-similarity/
+    const wordIntersection = [...set1].filter((x) => set2.has(x)).length;
+    const wordUnion = new Set([...set1, ...set2]).size;
+    const wordJaccard = wordUnion > 0 ? 1 - wordIntersection / wordUnion : 1;
+
+    // Character trigram Jaccard (30% weight) - catches fuzzy/partial matches.
+    // Chinese and Japanese pack a word into two or three characters, so they
+    // use bigrams.
+    // Reference: https://pubmed.ncbi.nlm.nih.gov/15747904/
+    const ngrams = (s: string): Set<string> => {
+      const result = new Set<string>();
+      const chars = [...s.replace(/\s+/g, " ")];
+      for (let i = 0; i <= chars.length - ngram; i++) {
+        result.add(chars.slice(i, i + ngram).join(""));
+      }
+      return result;
+    };
+    const tg1 = ngrams(s1);
+    const tg2 = ngrams(s2);
+    const tgIntersection = [...tg1].filter((x) => tg2.has(x)).length;
+    const tgUnion = new Set([...tg1, ...tg2]).size;
+    const trigramJaccard = tgUnion > 0 ? 1 - tgIntersection / tgUnion : 1;
+
+    // Length ratio penalty (20% weight) - very different lengths = more distant
+    const lenRatio =
+      Math.min(s1.length, s2.length) / Math.max(s1.length, s2.length);
+    const lengthPenalty = 1 - lenRatio;
+
+    // Weighted combination (matches original README specification)
+    return Math.min(
+      1,
+      Math.max(
+        0,
+        wordJaccard * 0.5 + trigramJaccard * 0.3 + lengthPenalty * 0.2,
+      ),
+    );
+  }
+}
+
+// ============================================================================
+// VECTOR METRIC (offline word embeddings)
+// ============================================================================
+
+/**
+ * Cosine distance between averaged word vectors, loaded from a local
+ * GloVe/fastText text file (`word v1 v2 ...` per line; a fastText
+ * `count dim` header line is skipped). Files are frequency-sorted, so
+ * `limit` keeps only the most common words to bound memory.
+ */
+export class VectorMetric implements DistanceMetric {
+  readonly name = "vector";
+  private vectors = new Map<string, Float32Array>();
+  private dims = 0;
+
+  constructor(file: string, limit = Infinity) {
+    this.load(file, limit);
+    if (this.vectors.size === 0) {
+      throw new Error(`No word vectors found in ${file}`);
+    }
+  }
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  // Read in chunks so multi-GB files never become a single string
+  private load(file: string, limit: number): void {
+    const fd = openSync(file, "r");
+    const chunk = Buffer.alloc(1 << 20);
+    let rest = "";
+    try {
+      let read: number;
+      while (
+        this.vectors.size < limit &&
+        (read = readSync(fd, chunk, 0, chunk.length, null)) > 0
+      ) {
+        const lines = (rest + chunk.toString("utf8", 0, read)).split("\n");
+        rest = lines.pop() ?? "";
+        for (const line of lines) {
+          if (this.vectors.size >= limit) break;
+          this.addLine(line);
+        }
+      }
+      if (this.vectors.size < limit) this.addLine(rest);
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  private addLine(line: string): void {
+    const parts = line.trim().split(" ");
+    if (parts.length <= 2) return; // blank or fastText header
+    const values = Float32Array.from(parts.slice(1), Number);
+    if (this.dims === 0) this.dims = values.length;
+    if (values.length !== this.dims) return;
+    this.vectors.set(parts[0].toLowerCase(), values);
+  }
+
+  private embed(
+    words: string[],
+    stem: (word: string) => string,
+  ): Float32Array | null {
+    const sum = new Float32Array(this.dims);
+    let found = 0;
+    for (const w of words) {
+      const v = this.vectors.get(w) ?? this.vectors.get(stem(w));
+      if (!v) continue;
+      for (let i = 0; i < this.dims; i++) sum[i] += v[i];
+      found++;
+    }
+    return found > 0 ? sum : null;
+  }
+
+  distance(a: string, b: string, vocabulary: Vocabulary): number | null {
+    if (a.toLowerCase().trim() === b.toLowerCase().trim()) return 0;
+    const language = vocabulary.languageFor(a, b);
+    const { stem } = LANGUAGES[language];
+    const words1 = vocabulary.words(a, language);
+    const words2 = vocabulary.words(b, language);
+
+    // Configured clusters are explicit domain knowledge and win over vectors
+    if (
+      vocabulary.sharesCluster(words1.map(stem), words2.map(stem), language)
+    ) {
+      return CLUSTER_DISTANCE;
+    }
+
+    const v1 = this.embed(words1, stem);
+    const v2 = this.embed(words2, stem);
+    if (!v1 || !v2) return null;
+
+    let dot = 0;
+    let n1 = 0;
+    let n2 = 0;
+    for (let i = 0; i < this.dims; i++) {
+      dot += v1[i] * v2[i];
+      n1 += v1[i] * v1[i];
+      n2 += v2[i] * v2[i];
+    }
+    if (n1 === 0 || n2 === 0) return null;
+    // Unrelated words sit near cosine 0, so 1 - cos already spans 0..1 in
+    // practice; the rare negative cosine is clamped to "unrelated"
+    const cos = dot / Math.sqrt(n1 * n2);
+    return Math.min(1, Math.max(0, 1 - cos));
+  }
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+/**
+ * Pick a metric from configuration. A vectors file implies the vector metric
+ * unless "lexical" is asked for explicitly.
+ */
+export function createMetric(
+  name?: string,
+  vectorsPath?: string,
+  limit?: number,
+): DistanceMetric {
+  const metric = name ?? (vectorsPath ? "vector" : "lexical");
+  if (metric === "lexical") return new LexicalMetric();
+  if (metric === "vector") {
+    if (!vectorsPath) {
+      throw new Error("The vector metric needs a word-vector file");
+    }
+    return new VectorMetric(vectorsPath, limit);
+  }
+  throw new Error(`Unknown distance metric "${metric}"`);
+}
@@ -0,0 +1,190 @@
+import {
+  CALIBRATION_EMOJI,
+  distanceBar,
+  isSemanticOverride,
+  returnLabel,
+  stepIcon,
+  tensionLabel,
+} from "./format.js";
+import { formatVisit, type ConceptGraph, type ConceptNode } from "./graph.js";
+import type { BranchSummary, DreamStep, Insight } from "./lib.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ExportFormat = "markdown" | "json" | "mermaid" | "dot";
+
+export interface DreamExport {
+  sessionId: string;
+  status: "open" | "closed";
+  exportedAt: string;
+  branch: BranchSummary; // the branch whose path is reported
+  branches: BranchSummary[];
+  steps: DreamStep[];
+  graph: ConceptGraph;
+  avgDistance: number | null;
+  stuckCount: number;
+  insight: Insight | null;
+}
+
+// ============================================================================
+// RENDERERS
+// ============================================================================
+
+export function render(data: DreamExport, format: ExportFormat): string {
+  switch (format) {
+    case "markdown":
+      return renderMarkdown(data);
+    case "json":
+      return JSON.stringify(data, null, 2);
+    case "mermaid":
+      return renderMermaid(data);
+    case "dot":
+      return renderDot(data);
+  }
+}
+
+function renderMarkdown(data: DreamExport): string {
+  const first = data.steps[0]?.concept ?? "(empty)";
+  const lines = [
+    `# Dream: ${first}`,
+    "",
+    `- Session: \`${data.sessionId}\` (${data.status})`,
+    ...(data.branches.length > 1
+      ? [
+          `- Branch: \`${data.branch.branchId}\`` +
+            (data.branch.parent !== null
+              ? ` (forked from \`${data.branch.parent}\` at step ${data.branch.forkStep})`
+              : "") +
+            ` — ${data.branches.length} branches in total`,
+        ]
+      : []),
+    `- Steps: ${data.steps.length}`,
+    `- Average distance: ${data.avgDistance !== null ? data.avgDistance.toFixed(2) : "—"}`,
+    `- Stuck: ${data.stuckCount}x`,
+    `- Exported: ${data.exportedAt}`,
+    "",
+    "## Path",
+    "",
+  ];
+
+  for (const s of data.steps) {
+    lines.push(`${s.step}. ${stepIcon(s)} **${s.concept}**`);
+    if (s.isReturn && s.returnsTo) {
+      const label =
+        s.returnDistance !== null ? ` (${returnLabel(s.returnDistance)})` : "";
+      lines.push(`   - ↩ Returning to: "${s.returnsTo}"${label}`);
+    }
+    if (s.distance !== null && s.calibration !== null) {
+      lines.push(
+        `   - Distance: ${s.distance.toFixed(2)} \`[${distanceBar(s.distance)}]\` ${CALIBRATION_EMOJI[s.calibration]}`,
+      );
+    }
+    if (isSemanticOverride(s.surfaceDistance, s.llmSemanticDistance)) {
+      lines.push(
+        `   - ⚡ Semantic override: surface=${s.surfaceDistance!.toFixed(2)}, you saw=${s.llmSemanticDistance!.toFixed(2)}`,
+      );
+    }
+    if (s.tension !== null) {
+      const partners = s.collidesWith.map((c) => `"${c}"`).join(", ");
+      const measure = s.collidesWith.length > 1 ? "friction" : "tension";
+      lines.push(
+        `   - 💥 Collides with ${partners}: ${measure} ${s.tension.toFixed(2)} ${tensionLabel(s.tension)}`,
+      );
+      if (s.collision?.swapOut) {
+        lines.push(
+          `   - → Swap out "${s.collision.swapOut.member}": too close to "${s.collision.swapOut.closestTo}" (${s.collision.swapOut.tension.toFixed(2)})`,
+        );
+      }
+    }
+    for (const r of s.stuckReasons) {
+      lines.push(`   - ⚠️ STUCK — ${r.message}`);
+    }
+  }
+
+  if (data.insight) {
+    const i = data.insight;
+    lines.push(
+      "",
+      "## Insight",
+      "",
+      `> ${i.insight}`,
+      "",
+      `- Topic: ${i.topic}`,
+      `- Draws on: ${i.drawsOn.map((d) => `step ${d.step} (${d.concept})`).join(", ")}`,
+      `- Travelled ${i.travelled.toFixed(2)} from "${i.startConcept}"`,
+    );
+  }
+
+  lines.push("", "## Graph", "", "```mermaid", renderMermaid(data), "```");
+  return lines.join("\n");
+}
+
+const LINE_BREAK = /\r\n|\r|\n/g;
+
+// Mermaid's quoted labels end at a double quote and its statements at a line
+// break, so both are swapped for something harmless
+const mermaidLabel = (label: string): string =>
+  label.replace(/"/g, "'").replace(LINE_BREAK, " ");
+
+// DOT strings escape quotes and backslashes with a backslash, and take \n
+// for a line break
+const dotLabel = (label: string): string =>
+  label.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(LINE_BREAK, "\\n");
+
+// Visited nodes are prefixed with the steps that landed on them
+const nodeLabel = (n: ConceptNode): string =>
+  n.external
+    ? n.concept
+    : `${n.visits.map((v) => formatVisit(v)).join(", ")}. ${n.concept}`;
+
+function renderMermaid(data: DreamExport): string {
+  const lines = ["graph LR"];
+  for (const n of data.graph.nodes) {
+    lines.push(
+      n.external
+        ? `  ${n.id}(["${mermaidLabel(nodeLabel(n))}"])`
+        : `  ${n.id}["${mermaidLabel(nodeLabel(n))}"]`,
+    );
+  }
+  for (const e of data.graph.edges) {
+    const w = e.weight !== null ? ` ${e.weight.toFixed(2)}` : "";
+    if (e.kind === "drift") {
+      lines.push(`  ${e.from} -->${w ? `|${w.trim()}|` : ""} ${e.to}`);
+    } else if (e.kind === "return") {
+      lines.push(`  ${e.from} -.->|return${w}| ${e.to}`);
+    } else {
+      lines.push(`  ${e.from} <-.->|collision${w}| ${e.to}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+function renderDot(data: DreamExport): string {
+  const lines = ["digraph dream {", "  rankdir=LR;", "  node [shape=box];"];
+  for (const n of data.graph.nodes) {
+    const shape = n.external ? ", shape=ellipse, style=dashed" : "";
+    lines.push(`  ${n.id} [label="${dotLabel(nodeLabel(n))}"${shape}];`);
+  }
+  for (const e of data.graph.edges) {
+    const w = e.weight !== null ? ` ${e.weight.toFixed(2)}` : "";
+    if (e.kind === "drift") {
+      lines.push(
+        w
+          ? `  ${e.from} -> ${e.to} [label="${w.trim()}"];`
+          : `  ${e.from} -> ${e.to};`,
+      );
+    } else if (e.kind === "return") {
+      lines.push(
+        `  ${e.from} -> ${e.to} [label="return${w}", style=dashed, constraint=false];`,
+      );
+    } else {
+      lines.push(
+        `  ${e.from} -> ${e.to} [label="collision${w}", style=dotted, dir=both, constraint=false];`,
+      );
+    }
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
@@ -0,0 +1,60 @@
+import type { Calibration } from "./lib.js";
+
+// ============================================================================
+// SHARED FORMATTING (tool output and exports)
+// ============================================================================
+
+export const CALIBRATION_EMOJI: Record<Calibration, string> = {
+  conservative: "🐢",
+  "on-target": "✓",
+  wild: "🔥",
+};
+
+export function stepIcon(step: {
+  isCollision: boolean;
+  isReturn: boolean;
+}): string {
+  return step.isCollision ? "💥" : step.isReturn ? "🔄" : "🌀";
+}
+
+export function distanceBar(distance: number): string {
+  const filled = Math.round(distance * 10);
+  return "█".repeat(filled) + "░".repeat(10 - filled);
+}
+
+export function tensionLabel(tension: number): string {
+  return tension > 0.7 ? "HIGH ⚡" : tension > 0.4 ? "MEDIUM" : "LOW ⚠️";
+}
+
+// How much a return changed the concept it came back to
+export function returnLabel(
+  returnDistance: number,
+): "transformed" | "shifted" | "similar" {
+  return returnDistance > 0.5
+    ? "transformed"
+    : returnDistance > 0.25
+      ? "shifted"
+      : "similar";
+}
+
+// Only worth mentioning when the LLM and the surface metric clearly disagree
+export function isSemanticOverride(
+  surfaceDistance: number | null,
+  llmSemanticDistance: number | null,
+): boolean {
+  return (
+    surfaceDistance !== null &&
+    llmSemanticDistance !== null &&
+    Math.abs(surfaceDistance - llmSemanticDistance) > 0.3
+  );
+}
+
+// Compact duration: "42s", "5m", "2h", "3d"
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+}
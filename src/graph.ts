@@ -0,0 +1,185 @@
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type EdgeKind = "drift" | "return" | "collision";
+
+export interface Visit {
+  branch: string;
+  step: number;
+}
+
+export interface ConceptNode {
+  id: string;
+  concept: string;
+  visits: Visit[]; // steps that landed here; empty for external nodes
+  external: boolean; // collided with, but never visited
+}
+
+export interface ConceptEdge {
+  from: string;
+  to: string;
+  kind: EdgeKind;
+  branch: string;
+  step: number; // the step that created the edge
+  weight: number | null; // drift distance, return distance or tension
+}
+
+export interface ConceptGraph {
+  nodes: ConceptNode[];
+  edges: ConceptEdge[];
+}
+
+export interface GraphStats {
+  nodes: number;
+  edges: number;
+  branchingFactor: number | null;
+  revisits: number;
+  longestDriftChain: number;
+}
+
+export interface NodeMatch {
+  node: ConceptNode;
+  distance: number; // 0 for exact matches
+}
+
+// Returns/collisions within this distance of a visited concept refer to it
+export const MATCH_THRESHOLD = 0.3;
+
+export const MAIN_BRANCH = "main";
+
+// ============================================================================
+// OPERATIONS
+// ============================================================================
+
+export function emptyGraph(): ConceptGraph {
+  return { nodes: [], edges: [] };
+}
+
+const normalize = (concept: string): string =>
+  concept.toLowerCase().trim().replace(/\s+/g, " ");
+
+// "3" on the given branch (main by default), "b2:3" elsewhere
+export function formatVisit(visit: Visit, branch = MAIN_BRANCH): string {
+  return visit.branch === branch
+    ? `${visit.step}`
+    : `${visit.branch}:${visit.step}`;
+}
+
+/**
+ * Find the visited node a free-text reference points to: an exact match
+ * first, then the closest concept within MATCH_THRESHOLD.
+ */
+export function findNode(
+  graph: ConceptGraph,
+  concept: string,
+  distance: (a: string, b: string) => number,
+): NodeMatch | null {
+  const visited = graph.nodes.filter((n) => !n.external);
+  const key = normalize(concept);
+  const exact = visited.find((n) => normalize(n.concept) === key);
+  if (exact) return { node: exact, distance: 0 };
+
+  let best: NodeMatch | null = null;
+  for (const node of visited) {
+    const d = distance(node.concept, concept);
+    if (d <= MATCH_THRESHOLD && (!best || d < best.distance)) {
+      best = { node, distance: d };
+    }
+  }
+  return best;
+}
+
+function nodeFor(
+  graph: ConceptGraph,
+  concept: string,
+  external: boolean,
+): ConceptNode {
+  const key = normalize(concept);
+  let node = graph.nodes.find((n) => normalize(n.concept) === key);
+  if (!node) {
+    node = {
+      id: `n${graph.nodes.length + 1}`,
+      concept,
+      visits: [],
+      external,
+    };
+    graph.nodes.push(node);
+  }
+  return node;
+}
+
+// Land a step on its node. Landing on an external node makes it visited.
+export function visit(
+  graph: ConceptGraph,
+  concept: string,
+  branch: string,
+  step: number,
+): ConceptNode {
+  const node = nodeFor(graph, concept, false);
+  node.external = false;
+  node.visits.push({ branch, step });
+  return node;
+}
+
+// Node for a collision partner that isn't in the path (yet)
+export function externalNode(
+  graph: ConceptGraph,
+  concept: string,
+): ConceptNode {
+  return nodeFor(graph, concept, true);
+}
+
+export function addEdge(graph: ConceptGraph, edge: ConceptEdge): void {
+  graph.edges.push(edge);
+}
+
+// ============================================================================
+// STATS
+// ============================================================================
+
+export function graphStats(graph: ConceptGraph): GraphStats {
+  // Branching: distinct drift successors per node that has any
+  const successors = new Map<string, Set<string>>();
+  for (const e of graph.edges) {
+    if (e.kind !== "drift") continue;
+    if (!successors.has(e.from)) successors.set(e.from, new Set());
+    successors.get(e.from)!.add(e.to);
+  }
+  const fanOut = [...successors.values()].map((s) => s.size);
+
+  const revisits = graph.nodes.reduce(
+    (n, node) => n + Math.max(0, node.visits.length - 1),
+    0,
+  );
+
+  // Longest run of drift edges on consecutive steps of one branch, each
+  // starting where the previous one ended. Returns break the chain.
+  const drifts = graph.edges
+    .filter((e) => e.kind === "drift")
+    .sort((a, b) => a.branch.localeCompare(b.branch) || a.step - b.step);
+  let longest = 0;
+  let run = 0;
+  let prev: ConceptEdge | null = null;
+  for (const e of drifts) {
+    const continues =
+      prev &&
+      prev.branch === e.branch &&
+      prev.step === e.step - 1 &&
+      prev.to === e.from;
+    run = continues ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    prev = e;
+  }
+
+  return {
+    nodes: graph.nodes.length,
+    edges: graph.edges.length,
+    branchingFactor:
+      fanOut.length > 0
+        ? fanOut.reduce((a, b) => a + b, 0) / fanOut.length
+        : null,
+    revisits,
+    longestDriftChain: longest,
+  };
+}
@@ -0,0 +1,203 @@
+import { randomUUID } from "node:crypto";
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { AssociativeDreamingServer } from "./lib.js";
+import { createServer } from "./server.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HttpOptions {
+  host: string;
+  port: number; // 0 picks a free port
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+export const DEFAULT_HTTP_PORT = 3000;
+
+const MCP_PATH = "/mcp";
+const HEALTH_PATH = "/health";
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const LOOPBACK = new Set(["127.0.0.1", "localhost", "::1", "[::1]"]);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+// Transport-level failures, shaped like the SDK's own JSON-RPC errors
+function sendRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+): void {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code, message }, id: null });
+}
+
+// The request body, or null once it grows past MAX_BODY_BYTES
+async function readBody(req: IncomingMessage): Promise<Buffer | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) return null;
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+// A server bound to loopback only answers requests addressed to loopback, so
+// web pages can't reach it through DNS rebinding
+function hostAllowed(req: IncomingMessage, bindHost: string): boolean {
+  if (!LOOPBACK.has(bindHost)) return true;
+  const header = req.headers.host;
+  if (!header) return false;
+  try {
+    return LOOPBACK.has(new URL(`http://${header}`).hostname);
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+/**
+ * Serve MCP over streamable HTTP at /mcp, plus a /health endpoint. Every
+ * connection (MCP session) gets its own transport and MCP server; they all
+ * share the dreamer, and with it the session store. Resolves with the URL
+ * of the MCP endpoint once listening.
+ */
+export function startHttpServer(
+  dreamer: AssociativeDreamingServer,
+  options: HttpOptions,
+): Promise<string> {
+  if (!Number.isInteger(options.port) || options.port < 0) {
+    throw new Error(`Invalid HTTP port "${options.port}"`);
+  }
+
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+  const startedAt = Date.now();
+
+  async function handle(req: IncomingMessage, res: ServerResponse) {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    if (path === HEALTH_PATH && req.method === "GET") {
+      sendJson(res, 200, {
+        status: "ok",
+        transport: "streamable-http",
+        connections: transports.size,
+        sessions: dreamer.listSessions().length,
+        uptime: Math.round((Date.now() - startedAt) / 1000),
+      });
+      return;
+    }
+    if (path !== MCP_PATH) {
+      sendJson(res, 404, { error: `Not found: ${path}` });
+      return;
+    }
+    if (!hostAllowed(req, options.host)) {
+      sendJson(res, 403, { error: "Host not allowed" });
+      return;
+    }
+
+    const header = req.headers["mcp-session-id"];
+    const connectionId = Array.isArray(header) ? header[0] : header;
+    const existing = connectionId ? transports.get(connectionId) : undefined;
+
+    if (req.method === "POST") {
+      const raw = await readBody(req);
+      if (raw === null) {
+        res.setHeader("Connection", "close");
+        sendRpcError(
+          res,
+          413,
+          -32600,
+          `Payload too large: the limit is ${MAX_BODY_BYTES} bytes`,
+        );
+        return;
+      }
+      let body: unknown;
+      try {
+        body = JSON.parse(raw.toString("utf8"));
+      } catch (e) {
+        sendRpcError(res, 400, -32700, `Parse error: ${(e as Error).message}`);
+        return;
+      }
+      if (existing) {
+        await existing.handleRequest(req, res, body);
+        return;
+      }
+      if (!connectionId && isInitializeRequest(body)) {
+        const id = randomUUID();
+        const transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => id,
+          onsessioninitialized: () => {
+            transports.set(id, transport);
+          },
+        });
+        transport.onclose = () => {
+          transports.delete(id);
+          dreamer.releaseConnection(id);
+        };
+        await createServer(dreamer, id).connect(transport);
+        await transport.handleRequest(req, res, body);
+        return;
+      }
+    } else if (req.method === "GET" || req.method === "DELETE") {
+      if (existing) {
+        await existing.handleRequest(req, res);
+        return;
+      }
+    } else {
+      res.writeHead(405, { Allow: "GET, POST, DELETE" }).end();
+      return;
+    }
+
+    if (connectionId) {
+      sendRpcError(res, 404, -32001, `Unknown session "${connectionId}"`);
+    } else {
+      sendRpcError(res, 400, -32000, "Bad Request: no valid session ID");
+    }
+  }
+
+  const server = createHttpServer((req, res) => {
+    handle(req, res).catch((e) => {
+      console.error("HTTP request failed:", e);
+      if (!res.headersSent) {
+        sendRpcError(res, 500, -32603, "Internal server error");
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, () => {
+      const { port } = server.address() as AddressInfo;
+      const host = options.host.includes(":")
+        ? `[${options.host}]`
+        : options.host;
+      resolve(`http://${host}:${port}${MCP_PATH}`);
+    });
+  });
+}
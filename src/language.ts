@@ -0,0 +1,516 @@
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type Language = "en" | "de" | "es" | "fr" | "it" | "pt" | "zh" | "ja";
+
+// "auto" detects the language of the texts being compared
+export type LanguageSetting = Language | "auto";
+
+export interface LanguageProfile {
+  name: string;
+  stopWords: Set<string>;
+  stem: (word: string) => string;
+  minWordLength: number; // shorter words carry no meaning on their own
+  ngram: number; // character n-gram size for fuzzy matching
+  elision?: RegExp; // article glued to the next word: "l'eau"
+}
+
+// ============================================================================
+// STEMMERS
+// ============================================================================
+
+/**
+ * English: plurals first, then at most one derivational suffix, so
+ * "volunteers" and "volunteer" end up at the same stem.
+ */
+export function stemEnglish(word: string): string {
+  if (word.length <= 3) return word;
+  let w = word;
+  if (w.endsWith("ies") && w.length > 4) w = w.slice(0, -3) + "y";
+  else if (w.endsWith("sses")) w = w.slice(0, -2);
+  else if (/(?:x|ch|sh|z)es$/.test(w)) w = w.slice(0, -2);
+  else if (w.endsWith("s") && !/(?:ss|us|is)$/.test(w)) w = w.slice(0, -1);
+
+  const suffixes = [
+    "ation",
+    "ness",
+    "ment",
+    "able",
+    "ible",
+    "ing",
+    "ed",
+    "er",
+    "ly",
+  ];
+  for (const suffix of suffixes) {
+    if (w.endsWith(suffix) && w.length > suffix.length + 2) {
+      return w.slice(0, -suffix.length);
+    }
+  }
+  return w;
+}
+
+const foldAccents = (word: string): string =>
+  word.normalize("NFD").replace(/\p{M}/gu, "");
+
+// Strip the longest matching suffix once, keeping at least minStem letters
+function suffixStemmer(
+  suffixes: string[],
+  minStem = 3,
+): (word: string) => string {
+  const ordered = [...suffixes].sort((a, b) => b.length - a.length);
+  return (word) => {
+    const w = foldAccents(word);
+    for (const suffix of ordered) {
+      if (w.endsWith(suffix) && w.length - suffix.length >= minStem) {
+        return w.slice(0, -suffix.length);
+      }
+    }
+    return w;
+  };
+}
+
+const unchanged = (word: string): string => word;
+
+// ============================================================================
+// LANGUAGES
+// ============================================================================
+
+export const LANGUAGES: Record<Language, LanguageProfile> = {
+  en: {
+    name: "English",
+    stopWords: new Set([
+      "the",
+      "a",
+      "an",
+      "and",
+      "or",
+      "but",
+      "in",
+      "on",
+      "at",
+      "to",
+      "for",
+      "of",
+      "with",
+      "by",
+      "from",
+      "is",
+      "it",
+      "as",
+      "be",
+      "this",
+      "that",
+      "are",
+      "was",
+      "were",
+      "been",
+      "has",
+      "have",
+      "had",
+      "not",
+      "no",
+      "yes",
+    ]),
+    stem: stemEnglish,
+    minWordLength: 2,
+    ngram: 3,
+  },
+  de: {
+    name: "German",
+    stopWords: new Set([
+      "der",
+      "die",
+      "das",
+      "den",
+      "dem",
+      "des",
+      "ein",
+      "eine",
+      "einer",
+      "eines",
+      "einem",
+      "einen",
+      "und",
+      "oder",
+      "aber",
+      "in",
+      "im",
+      "am",
+      "an",
+      "auf",
+      "aus",
+      "bei",
+      "mit",
+      "von",
+      "vom",
+      "zu",
+      "zum",
+      "zur",
+      "für",
+      "ist",
+      "sind",
+      "war",
+      "nicht",
+      "kein",
+      "keine",
+      "wie",
+      "als",
+      "es",
+    ]),
+    // Umlauts fold with the accents, so "Häuser" meets "Haus"
+    stem: suffixStemmer([
+      "ungen",
+      "heit",
+      "keit",
+      "lich",
+      "isch",
+      "chen",
+      "ung",
+      "en",
+      "er",
+      "es",
+      "em",
+      "e",
+      "n",
+    ]),
+    minWordLength: 2,
+    ngram: 3,
+  },
+  es: {
+    name: "Spanish",
+    stopWords: new Set([
+      "el",
+      "la",
+      "los",
+      "las",
+      "un",
+      "una",
+      "unos",
+      "unas",
+      "y",
+      "o",
+      "pero",
+      "en",
+      "de",
+      "del",
+      "al",
+      "a",
+      "con",
+      "por",
+      "para",
+      "es",
+      "son",
+      "que",
+      "no",
+      "se",
+      "su",
+      "como",
+    ]),
+    stem: suffixStemmer([
+      "amientos",
+      "imientos",
+      "amiento",
+      "imiento",
+      "aciones",
+      "acion",
+      "mente",
+      "idades",
+      "idad",
+      "ismo",
+      "ista",
+      "es",
+      "os",
+      "as",
+      "s",
+      "o",
+      "a",
+      "e",
+    ]),
+    minWordLength: 2,
+    ngram: 3,
+  },
+  fr: {
+    name: "French",
+    stopWords: new Set([
+      "le",
+      "la",
+      "les",
+      "l",
+      "un",
+      "une",
+      "des",
+      "du",
+      "de",
+      "d",
+      "et",
+      "ou",
+      "mais",
+      "en",
+      "dans",
+      "au",
+      "aux",
+      "à",
+      "avec",
+      "par",
+      "pour",
+      "sur",
+      "est",
+      "sont",
+      "que",
+      "qui",
+      "ne",
+      "pas",
+      "se",
+      "sa",
+      "son",
+      "ses",
+    ]),
+    stem: suffixStemmer([
+      "issements",
+      "issement",
+      "ations",
+      "ation",
+      "ements",
+      "ement",
+      "euses",
+      "euse",
+      "ites",
+      "ite",
+      "ives",
+      "ive",
+      "eaux",
+      "aux",
+      "es",
+      "er",
+      "ez",
+      "s",
+      "e",
+      "x",
+    ]),
+    minWordLength: 2,
+    ngram: 3,
+    elision: /^(?:[cdjlmnst]|qu)['’]/,
+  },
+  it: {
+    name: "Italian",
+    stopWords: new Set([
+      "il",
+      "lo",
+      "la",
+      "i",
+      "gli",
+      "le",
+      "un",
+      "uno",
+      "una",
+      "e",
+      "o",
+      "ma",
+      "in",
+      "di",
+      "del",
+      "della",
+      "a",
+      "al",
+      "da",
+      "con",
+      "per",
+      "su",
+      "che",
+      "non",
+      "è",
+      "sono",
+    ]),
+    stem: suffixStemmer([
+      "azioni",
+      "azione",
+      "amenti",
+      "amento",
+      "mente",
+      "ita",
+      "ismo",
+      "ista",
+      "ere",
+      "are",
+      "ire",
+      "i",
+      "e",
+      "a",
+      "o",
+    ]),
+    minWordLength: 2,
+    ngram: 3,
+    elision: /^(?:[dl]|dell|dall|nell|sull|all|un)['’]/,
+  },
+  pt: {
+    name: "Portuguese",
+    stopWords: new Set([
+      "o",
+      "a",
+      "os",
+      "as",
+      "um",
+      "uma",
+      "e",
+      "ou",
+      "mas",
+      "em",
+      "no",
+      "na",
+      "nos",
+      "nas",
+      "de",
+      "do",
+      "da",
+      "dos",
+      "das",
+      "com",
+      "por",
+      "para",
+      "que",
+      "não",
+      "se",
+      "é",
+      "são",
+    ]),
+    stem: suffixStemmer([
+      "amentos",
+      "amento",
+      "acoes",
+      "acao",
+      "mente",
+      "idades",
+      "idade",
+      "ismo",
+      "ista",
+      "oes",
+      "aes",
+      "es",
+      "os",
+      "as",
+      "s",
+      "o",
+      "a",
+      "e",
+    ]),
+    minWordLength: 2,
+    ngram: 3,
+  },
+  // No inflection to strip; single characters are often whole words
+  zh: {
+    name: "Chinese",
+    stopWords: new Set(["的", "了", "是", "在", "和", "与", "也", "就", "都"]),
+    stem: unchanged,
+    minWordLength: 1,
+    ngram: 2,
+  },
+  ja: {
+    name: "Japanese",
+    stopWords: new Set([
+      "の",
+      "は",
+      "が",
+      "を",
+      "に",
+      "で",
+      "と",
+      "も",
+      "へ",
+      "や",
+      "から",
+      "まで",
+      "です",
+      "ます",
+    ]),
+    stem: unchanged,
+    minWordLength: 1,
+    ngram: 2,
+  },
+};
+
+export function parseLanguage(value: string): LanguageSetting {
+  const language = value.toLowerCase().trim();
+  if (language === "auto" || Object.hasOwn(LANGUAGES, language)) {
+    return language as LanguageSetting;
+  }
+  throw new Error(
+    `Unknown language "${value}" (auto, ${Object.keys(LANGUAGES).join(", ")})`,
+  );
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+// Letters only one of the Latin-script languages uses
+const LETTER_HINTS: Array<[Language, RegExp]> = [
+  ["de", /[äöüß]/],
+  ["es", /[ñ¿¡]/],
+  ["fr", /[œæèêëîïûùÿ]/],
+  ["pt", /[ãõ]/],
+];
+
+// How far another language has to outscore English: two stop words, or one
+// telltale letter. A lone "die" or "los" in English text isn't enough.
+const DETECTION_MARGIN = 2;
+
+/**
+ * Guess the language of a text: by script for Chinese and Japanese (kana
+ * means Japanese), otherwise by stop words and telltale letters. Too little
+ * evidence means English.
+ */
+export function detectLanguage(text: string): Language {
+  if (/[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(text)) return "ja";
+  if (/\p{Script=Han}/u.test(text)) return "zh";
+
+  const lower = text.toLowerCase();
+  const words = lower.split(/[^\p{L}]+/u).filter(Boolean);
+  const score = (language: Language): number => {
+    const { stopWords } = LANGUAGES[language];
+    let points = words.filter((w) => stopWords.has(w)).length;
+    for (const [hinted, pattern] of LETTER_HINTS) {
+      if (hinted === language && pattern.test(lower)) points += 2;
+    }
+    return points;
+  };
+
+  let best: Language = "en";
+  let bestScore = 0;
+  for (const language of Object.keys(LANGUAGES) as Language[]) {
+    if (language === "en") continue;
+    const points = score(language);
+    if (points > bestScore) {
+      best = language;
+      bestScore = points;
+    }
+  }
+  return bestScore >= score("en") + DETECTION_MARGIN ? best : "en";
+}
+
+// ============================================================================
+// SEGMENTATION
+// ============================================================================
+
+const segmenters = new Map<Language, Intl.Segmenter>();
+
+/**
+ * Lowercased words of a text, split at the language's word boundaries:
+ * "苹果和香蕉" becomes 苹果 / 和 / 香蕉 instead of one token. Elided
+ * articles are dropped, so "l'amour" is "amour".
+ */
+export function segmentWords(text: string, language: Language): string[] {
+  let segmenter = segmenters.get(language);
+  if (!segmenter) {
+    segmenter = new Intl.Segmenter(language, { granularity: "word" });
+    segmenters.set(language, segmenter);
+  }
+  const { elision } = LANGUAGES[language];
+  const words: string[] = [];
+  for (const s of segmenter.segment(text.toLocaleLowerCase(language))) {
+    if (!s.isWordLike) continue;
+    words.push(elision ? s.segment.replace(elision, "") : s.segment);
+  }
+  return words;
+}
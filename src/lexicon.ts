@@ -0,0 +1,137 @@
+// ============================================================================
+// DOMAIN LEXICON
+// ============================================================================
+
+// Offline pool of concrete concepts, grouped by domain, that stuck
+// explorations can jump to. Phrases are short and vivid on purpose: they are
+// offered to the model as next steps, not as definitions.
+export const LEXICON: Record<string, string[]> = {
+  biology: [
+    "mycelium networks",
+    "immune system memory",
+    "cell apoptosis",
+    "symbiotic lichen",
+    "metamorphosis inside a chrysalis",
+    "tidal pool ecosystems",
+  ],
+  music: [
+    "jazz improvisation",
+    "call and response",
+    "orchestra tuning to the oboe",
+    "dissonance resolving",
+    "a drummer keeping time",
+    "fugue counterpoint",
+  ],
+  mythology: [
+    "Sisyphus and the boulder",
+    "the labyrinth and Ariadne's thread",
+    "trickster gods",
+    "the phoenix rising",
+    "Pandora's box",
+    "the hero's descent to the underworld",
+  ],
+  cooking: [
+    "sourdough starter",
+    "slow braising",
+    "mise en place",
+    "fermentation crocks",
+    "reducing a sauce",
+    "seasoning a cast iron pan",
+  ],
+  astronomy: [
+    "gravitational lensing",
+    "tidal locking",
+    "supernova remnants",
+    "orbital resonance",
+    "light from dead stars",
+    "comet tails",
+  ],
+  architecture: [
+    "flying buttresses",
+    "load-bearing walls",
+    "desire paths across lawns",
+    "cathedral acoustics",
+    "scaffolding",
+    "keystone arches",
+  ],
+  sports: [
+    "relay baton handoff",
+    "a goalkeeper reading the striker",
+    "marathon pacing",
+    "chess endgames",
+    "surfers waiting for a set",
+    "climbing rope belay",
+  ],
+  weather: [
+    "pressure fronts",
+    "fog burning off",
+    "monsoon cycles",
+    "lightning finding ground",
+    "the eye of a hurricane",
+    "frost patterns",
+  ],
+  geology: [
+    "sediment layers",
+    "plate tectonics",
+    "erosion carving canyons",
+    "geodes",
+    "volcanic islands forming",
+    "glacial moraines",
+  ],
+  craft: [
+    "kintsugi pottery repair",
+    "weaving on a loom",
+    "blacksmith tempering steel",
+    "bookbinding",
+    "stained glass leading",
+    "knots and splices",
+  ],
+  navigation: [
+    "dead reckoning",
+    "lighthouses",
+    "star compasses",
+    "tide tables",
+    "ant pheromone trails",
+    "migrating birds and magnetic fields",
+  ],
+  theater: [
+    "understudies",
+    "improv yes-and",
+    "stage blocking",
+    "a masked chorus",
+    "the fourth wall",
+    "dress rehearsal",
+  ],
+  gardening: [
+    "pruning for growth",
+    "companion planting",
+    "grafting branches",
+    "compost heaps",
+    "seed banks",
+    "crop rotation",
+  ],
+  medicine: [
+    "triage",
+    "vaccination",
+    "phantom limbs",
+    "placebo effect",
+    "physical therapy",
+    "second opinions",
+  ],
+  childhood: [
+    "hide and seek",
+    "building a blanket fort",
+    "learning to ride a bike",
+    "imaginary friends",
+    "sandcastles before the tide",
+    "passing notes in class",
+  ],
+  ritual: [
+    "tea ceremony",
+    "funeral processions",
+    "coming of age",
+    "pilgrimage",
+    "harvest festivals",
+    "lighting candles",
+  ],
+};
@@ -1,398 +1,1170 @@
+import { randomUUID } from "node:crypto";
+import { analyzeCalibration, calibrate } from "./calibration.js";
+import { collide, type Collision } from "./collision.js";
+import {
+  createMetric,
+  LexicalMetric,
+  type DistanceMetric,
+} from "./distance.js";
+import {
+  addEdge,
+  emptyGraph,
+  externalNode,
+  findNode,
+  formatVisit,
+  graphStats,
+  MAIN_BRANCH,
+  MATCH_THRESHOLD,
+  visit,
+  type ConceptGraph,
+  type NodeMatch,
+} from "./graph.js";
+import { render, type DreamExport, type ExportFormat } from "./export.js";
+import { distanceBar, formatDuration } from "./format.js";
+import { parseLanguage, type LanguageSetting } from "./language.js";
+import { JsonLinesLogger, SILENT_LOGGER, type Logger } from "./logger.js";
+import {
+  formatMessage,
+  loadMessages,
+  MESSAGES,
+  type MessageCatalog,
+  type MessageKey,
+  type MessageParams,
+} from "./messages.js";
+import {
+  decayFactor,
+  scoringProfile,
+  type ScoringProfile,
+  type SignalContribution,
+  type SignalName,
+} from "./scoring.js";
+import {
+  findGroup,
+  groupFor,
+  normalizeError,
+  normalizeTopic,
+  type SignalGroup,
+} from "./signals.js";
+import {
+  CHECK_RESULT_VERSION,
+  CheckResultSchema,
+  DREAM_RESULT_VERSION,
+  DreamResultSchema,
+  validated,
+  type CheckResult,
+  type DreamResult,
+} from "./schemas.js";
+import {
+  aggregateStats,
+  firstStuckLine,
+  sessionStats,
+  statsLines,
+  type SessionStats,
+} from "./stats.js";
+import {
+  OUTCOME_EMOJI,
+  outcomeLines,
+  signalOutcomes,
+  weightAdjustments,
+  type Outcome,
+  type Verdict,
+} from "./outcomes.js";
+import { pick, randomId, seededRandom, type Random } from "./random.js";
+import {
+  parseRenderStyle,
+  renderCheck,
+  renderDream,
+  type RenderStyle,
+} from "./render.js";
+import {
+  JsonLinesRecorder,
+  RECORDING_VERSION,
+  type RecordedOutput,
+  type RecordedTool,
+  type Recorder,
+} from "./recording.js";
+import { analyzeStuck, type StuckReason } from "./stuck.js";
+import { suggestConcepts, type Suggestion } from "./suggest.js";
+import {
+  BUILTIN_VOCABULARY,
+  loadVocabulary,
+  normalizeCluster,
+  type Vocabulary,
+} from "./vocabulary.js";
+import {
+  JsonFileStore,
+  SNAPSHOT_VERSION,
+  type SessionSnapshot,
+  type SessionStore,
+  type StoreSnapshot,
+} from "./store.js";
+
 // ============================================================================
 // TYPES
 // ============================================================================
 
 export interface DreamInput {
+  sessionId?: string; // defaults to the current default session
   concept: string;
   chaosLevel?: number; // 0-1, defaults to 0.5
   semanticDistance?: number; // LLM's override of surface distance (0-1)
+  render?: RenderStyle; // text style for this call
   isReturn?: boolean;
   returnsTo?: string;
   isCollision?: boolean;
-  collidesWith?: string;
+  collidesWith?: string | string[]; // several: a pairwise tension matrix
   reset?: boolean;
+  branchFrom?: number | string; // fork a new branch at this step or concept
 }
 
 export interface CheckInput {
+  sessionId?: string; // defaults to the current default session
   topic: string;
   attempts?: number;
   errors?: string[];
   sentiment?: "neutral" | "curious" | "frustrated" | "stuck" | "exploring";
   signal?: string;
+  render?: RenderStyle; // text style for this call
+}
+
+export interface OutcomeInput {
+  sessionId?: string; // defaults to the current default session
+  topic: string; // matched to the dreamcheck topic it answers
+  outcome: Outcome;
+}
+
+export interface SessionInput {
+  action: "create" | "list" | "close";
+  sessionId?: string; // create: optional custom id; close: required
+  seed?: string; // create: makes the session's random choices repeatable
+}
+
+export type Calibration = "conservative" | "on-target" | "wild";
+
+// One recorded dream call - the full history behind the `path` strings
+export interface DreamStep {
+  step: number;
+  concept: string;
+  node: string; // concept graph node id
+  chaosLevel: number;
+  distance: number | null;
+  surfaceDistance: number | null;
+  surfaceMetric: string | null; // which DistanceMetric produced surfaceDistance
+  llmSemanticDistance: number | null;
+  calibration: Calibration | null;
+  tension: number | null;
+  isReturn: boolean;
+  returnsTo: string | null; // the earlier concept it matched
+  returnDistance: number | null;
+  isCollision: boolean;
+  collidesWith: string[];
+  collision: Collision | null; // tension holds its friction
+  stuck: boolean;
+  stuckReasons: StuckReason[];
+  at: string;
+}
+
+// A line of exploration. Forks copy the parent's steps up to forkStep, so
+// every branch holds its full path.
+export interface DreamBranch {
+  id: string;
+  parent: string | null;
+  forkStep: number | null; // last step shared with the parent
+  createdAt: number;
+  steps: DreamStep[];
+}
+
+export interface BranchSummary {
+  branchId: string;
+  parent: string | null;
+  forkStep: number | null;
+  active: boolean;
+  steps: number;
+  lastConcept: string | null;
+  avgDistance: number | null;
+  stuckCount: number;
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  status: "open" | "closed";
+  isDefault: boolean;
+  createdAt: string;
+  activeBranch: string;
+  branches: number;
+  steps: number; // on the active branch
+  checks: number;
+  lastConcept: string | null;
+}
+
+export interface BranchInput {
+  sessionId?: string;
+  action: "list" | "switch";
+  branchId?: string; // switch: required
+}
+
+export interface VocabularyInput {
+  sessionId?: string;
+  action: "add" | "list";
+  clusters?: string[][]; // add: groups of single-word synonyms
+}
+
+export interface ExportInput {
+  sessionId?: string;
+  format?: ExportFormat; // defaults to markdown
+}
+
+export interface StatsInput {
+  sessionId?: string;
+  scope?: "session" | "all"; // defaults to session
+}
+
+export interface SynthesizeInput {
+  sessionId?: string;
+  action?: "record" | "list"; // defaults to record
+  insight?: string; // record: required
+  drawsOn?: Array<number | string>; // record: step numbers or concepts
+  topic?: string; // record: defaults to the first concept; list: filter
+}
+
+export interface Insight {
+  sessionId: string;
+  branch: string;
+  topic: string;
+  insight: string;
+  drawsOn: Array<{ step: number; concept: string }>;
+  startConcept: string;
+  travelled: number; // distance from the starting concept to the insight
+  steps: number; // length of the branch when it was synthesized
+  at: string; // ISO timestamp
+}
+
+export interface ServerOptions {
+  store?: SessionStore | null; // defaults to a JSON file at $DREAM_STORE, if set
+  metric?: DistanceMetric; // defaults to $DREAM_DISTANCE_METRIC / $DREAM_VECTORS
+  vocabulary?: Vocabulary; // defaults to the file at $DREAM_VOCABULARY, if set
+  language?: LanguageSetting; // overrides the vocabulary's; $DREAM_LANGUAGE
+  scoring?: ScoringProfile; // defaults to the preset or file at $DREAM_SCORING
+  logger?: Logger; // defaults to JSON lines per $DREAM_LOG_*, unless disabled
+  seed?: string; // defaults to $DREAM_SEED; unseeded runs use Math.random
+  recorder?: Recorder | null; // defaults to a JSON-lines file at $DREAM_RECORD
+  clock?: () => number; // epoch ms, defaults to Date.now
+  adaptWeights?: boolean; // defaults to $DREAM_ADAPT_WEIGHTS=true
+  render?: RenderStyle; // defaults to $DREAM_RENDER, else rich
+  messages?: MessageCatalog; // defaults to the file at $DREAM_MESSAGES, if set
+}
+
+export type ToolResult<
+  T extends Record<string, unknown> = Record<string, unknown>,
+> = {
+  content: Array<{ type: "text"; text: string }>;
+  structuredContent: T;
+};
+
+interface DreamSession {
+  id: string;
+  status: "open" | "closed";
+  createdAt: number;
+  seed: string | null; // set on create; otherwise derived from the server's
+
+  // Dream state
+  branches: DreamBranch[];
+  activeBranch: string;
+  graph: ConceptGraph;
+  clusters: string[][]; // synonym clusters added for this session only
+  insight: Insight | null; // set by synthesize, which closes the session
+
+  // Conversation state (for dreamcheck)
+  topics: SignalGroup[];
+  errors: SignalGroup[];
+  checks: number[]; // epoch ms of every dreamcheck, oldest first
+  verdicts: Verdict[]; // what each dreamcheck said, for dream_outcome
 }
 
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
-const PROMPTS = [
-  "Try a completely different domain (biology, music, mythology, cooking)",
-  "What metaphor would a child use?",
-  "What's the emotional opposite?",
-  "If this were a physical sensation, what would it be?",
-  "What would this look like in 1000 years?",
-  "What animal or weather pattern embodies this?",
-  "What's the absurd connection you're suppressing?",
-];
+export const DEFAULT_SESSION = "default";
 
-// Synonym clusters for surface-level semantic detection
-const CLUSTERS: string[][] = [
-  ["grief", "mourning", "sorrow", "loss", "sadness"],
-  ["happy", "joy", "elation", "bliss", "cheerful"],
-  ["anger", "rage", "fury", "wrath", "outrage"],
-  ["fear", "terror", "dread", "anxiety", "panic"],
-  [
-    "code",
-    "programming",
-    "software",
-    "development",
-    "system",
-    "application",
-    "app",
-  ],
-  ["money", "currency", "cash", "funds", "wealth"],
-  ["start", "begin", "commence", "initiate", "launch"],
-  ["end", "finish", "conclude", "terminate", "complete"],
-  ["think", "ponder", "contemplate", "reflect", "consider"],
-  ["death", "dying", "demise", "mortality", "passing"],
-  ["love", "affection", "devotion", "adoration", "passion"],
-  ["hate", "loathe", "detest", "despise", "abhor"],
-];
+function avgDistance(steps: DreamStep[]): number | null {
+  const distances = steps
+    .map((s) => s.distance)
+    .filter((d): d is number => d !== null);
+  return distances.length > 0
+    ? distances.reduce((a, b) => a + b, 0) / distances.length
+    : null;
+}
 
-// Build cluster map with both original and stemmed forms
-const CLUSTER_MAP = new Map<string, number>();
-const simpleStem = (word: string): string => {
-  if (word.length <= 3) return word;
-  const suffixes = [
-    "ation",
-    "ness",
-    "ment",
-    "able",
-    "ible",
-    "ing",
-    "ed",
-    "er",
-    "ly",
-    "es",
-    "s",
-  ];
-  for (const suffix of suffixes) {
-    if (word.endsWith(suffix) && word.length > suffix.length + 2) {
-      return word.slice(0, -suffix.length);
-    }
-  }
-  return word;
-};
-CLUSTERS.forEach((cluster, i) => {
-  cluster.forEach((w) => {
-    CLUSTER_MAP.set(w, i);
-    CLUSTER_MAP.set(simpleStem(w), i); // Also add stemmed form
-  });
+// Collision partners as given: one string or several, blanks and repeats
+// dropped
+function collisionTargets(collidesWith: string | string[] | undefined) {
+  const list = typeof collidesWith === "string" ? [collidesWith] : collidesWith;
+  return [...new Set((list ?? []).map((c) => c.trim()).filter(Boolean))];
+}
+
+const stuckCount = (steps: DreamStep[]): number =>
+  steps.filter((s) => s.stuck).length;
+
+// Every step of a session once, in the order they were taken: forks copy
+// their parent's prefix, so each branch only contributes its own steps.
+// Steps in the same millisecond (a frozen or replayed clock) go by number.
+const takenSteps = (session: DreamSession): DreamStep[] =>
+  [...session.branches.values()]
+    .flatMap((b) => b.steps.slice(b.forkStep ?? 0))
+    .sort((a, b) => a.at.localeCompare(b.at) || a.step - b.step);
+
+const newBranch = (
+  id: string,
+  createdAt: number,
+  parent: DreamBranch | null = null,
+  forkStep: number | null = null,
+): DreamBranch => ({
+  id,
+  parent: parent?.id ?? null,
+  forkStep,
+  createdAt,
+  steps: parent ? parent.steps.slice(0, forkStep!).map((s) => ({ ...s })) : [],
 });
 
-// Stop words to ignore in distance calculation
-const STOP_WORDS = new Set([
-  "the",
-  "a",
-  "an",
-  "and",
-  "or",
-  "but",
-  "in",
-  "on",
-  "at",
-  "to",
-  "for",
-  "of",
-  "with",
-  "by",
-  "from",
-  "is",
-  "it",
-  "as",
-  "be",
-  "this",
-  "that",
-  "are",
-  "was",
-  "were",
-  "been",
-  "has",
-  "have",
-  "had",
-  "not",
-  "no",
-  "yes",
-]);
+const PROMPTS: MessageKey[] = [
+  "prompt.domain",
+  "prompt.child",
+  "prompt.opposite",
+  "prompt.sensation",
+  "prompt.future",
+  "prompt.nature",
+  "prompt.absurd",
+];
 
 // ============================================================================
 // SERVER
 // ============================================================================
 
 export class AssociativeDreamingServer {
-  // Dream state
-  private path: string[] = [];
-  private distances: number[] = [];
-  private stuckCount = 0;
+  // Session registry - each session has isolated dream and check state
+  private sessions = new Map<string, DreamSession>();
+  private defaultSessionId = DEFAULT_SESSION;
+  private connectionDefaults = new Map<string, string>(); // HTTP connections
 
-  // Conversation state (for dreamcheck)
-  private topicCounts = new Map<string, number>();
-  private errorCounts = new Map<string, number>();
-  private checkCount = 0;
+  private store: SessionStore | null;
+
+  // Surface distance - lexical unless configured otherwise, and always the
+  // fallback for pairs the configured metric can't judge
+  private metric: DistanceMetric;
+  private lexical = new LexicalMetric();
+
+  // Configured clusters/stop words, extended per session on demand
+  private vocabulary: Vocabulary;
+  private sessionVocabularies = new WeakMap<DreamSession, Vocabulary>();
+
+  private scoring: ScoringProfile;
+  private adaptWeights: boolean; // scale weights by reported outcomes
+
+  private logger: Logger;
+
+  // How dream and dreamcheck text reads, unless a call asks otherwise
+  private render: RenderStyle;
+  private messages: MessageCatalog;
+
+  // Time and chance go through these, so a seeded run can be repeated
+  private clock: () => number;
+  private seed: string | null;
+  private ids: Random | null; // generated session ids, when seeded
+
+  private recorder: Recorder | null;
 
-  private logging: boolean;
+  constructor(options: ServerOptions = {}) {
+    this.clock = options.clock ?? Date.now;
+    this.logger =
+      options.logger ??
+      (process.env.DISABLE_DREAM_LOGGING?.toLowerCase() === "true"
+        ? SILENT_LOGGER
+        : new JsonLinesLogger({
+            level: process.env.DREAM_LOG_LEVEL || undefined,
+            file: process.env.DREAM_LOG_FILE || undefined,
+            redact: process.env.DREAM_LOG_REDACT?.toLowerCase() === "true",
+            redactKey: process.env.DREAM_LOG_REDACT_KEY || undefined,
+            clock: () => this.clock(),
+          }));
 
-  constructor() {
-    this.logging = process.env.DISABLE_DREAM_LOGGING?.toLowerCase() !== "true";
+    const vectorsLimit = Number(process.env.DREAM_VECTORS_LIMIT) || undefined;
+    this.metric =
+      options.metric ??
+      createMetric(
+        process.env.DREAM_DISTANCE_METRIC || undefined,
+        process.env.DREAM_VECTORS || undefined,
+        vectorsLimit,
+      );
+
+    const vocabularyPath = process.env.DREAM_VOCABULARY;
+    this.vocabulary =
+      options.vocabulary ??
+      (vocabularyPath ? loadVocabulary(vocabularyPath) : BUILTIN_VOCABULARY);
+    const language =
+      options.language ??
+      (process.env.DREAM_LANGUAGE
+        ? parseLanguage(process.env.DREAM_LANGUAGE)
+        : undefined);
+    if (language) this.vocabulary = this.vocabulary.withLanguage(language);
+
+    this.scoring =
+      options.scoring ?? scoringProfile(process.env.DREAM_SCORING || undefined);
+    this.render =
+      options.render ??
+      (process.env.DREAM_RENDER
+        ? parseRenderStyle(process.env.DREAM_RENDER)
+        : "rich");
+    const messagesPath = process.env.DREAM_MESSAGES;
+    this.messages =
+      options.messages ??
+      (messagesPath ? loadMessages(messagesPath) : MESSAGES);
+
+    this.adaptWeights =
+      options.adaptWeights ??
+      process.env.DREAM_ADAPT_WEIGHTS?.toLowerCase() === "true";
+
+    // A recording is only replayable with a seed, so it always gets one
+    const recordPath = process.env.DREAM_RECORD;
+    this.recorder =
+      options.recorder !== undefined
+        ? options.recorder
+        : recordPath
+          ? new JsonLinesRecorder(recordPath)
+          : null;
+    this.seed = options.seed ?? (process.env.DREAM_SEED || null);
+    if (this.recorder && this.seed === null) this.seed = randomUUID();
+    this.ids = this.seed === null ? null : seededRandom(`${this.seed}:ids`);
+    this.recorder?.start({
+      recording: RECORDING_VERSION,
+      seed: this.seed!,
+      startedAt: new Date(this.clock()).toISOString(),
+      scoring: this.scoring,
+      render: this.render,
+    });
+
+    const storePath = process.env.DREAM_STORE;
+    this.store =
+      options.store !== undefined
+        ? options.store
+        : storePath
+          ? new JsonFileStore(storePath)
+          : null;
+    const snapshot = this.store?.load();
+    if (snapshot) this.restore(snapshot);
   }
 
   // ==========================================================================
-  // CORE: Semantic Distance (the "dumb mirror")
+  // PERSISTENCE
+  // ==========================================================================
+
+  private snapshot(): StoreSnapshot {
+    const sessions: SessionSnapshot[] = [...this.sessions.values()].map(
+      (s) => ({
+        id: s.id,
+        status: s.status,
+        createdAt: s.createdAt,
+        branches: s.branches,
+        activeBranch: s.activeBranch,
+        graph: s.graph,
+        seed: s.seed,
+        clusters: s.clusters,
+        insight: s.insight,
+        topics: s.topics,
+        errors: s.errors,
+        checks: s.checks,
+        verdicts: s.verdicts,
+      }),
+    );
+    return {
+      version: SNAPSHOT_VERSION,
+      savedAt: new Date(this.clock()).toISOString(),
+      defaultSessionId: this.defaultSessionId,
+      sessions,
+    };
+  }
+
+  private restore(snapshot: StoreSnapshot): void {
+    this.defaultSessionId = snapshot.defaultSessionId;
+    for (const s of snapshot.sessions) {
+      this.sessions.set(s.id, s);
+    }
+  }
+
+  /**
+   * Save after every state change. A failing store must not break the tool
+   * call that triggered it, so errors are reported and swallowed.
+   */
+  private persist(): void {
+    if (!this.store) return;
+    try {
+      this.store.save(this.snapshot());
+    } catch (e) {
+      this.logger.log("error", "persist_failed", {
+        error: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }
+
+  // ==========================================================================
+  // RECORDING & RANDOMNESS
   // ==========================================================================
 
   /**
-   * Simple stemmer - removes common suffixes to match "maps" with "map"
+   * Run a state-changing call and, when recording, write down when it was
+   * made, its input and what came of it: the result or the error. The whole
+   * call sees one instant, the recorded one, however often it reads the time.
    */
-  private stem(word: string): string {
-    if (word.length <= 3) return word;
-    const suffixes = [
-      "ation",
-      "ness",
-      "ment",
-      "able",
-      "ible",
-      "ing",
-      "ed",
-      "er",
-      "ly",
-      "es",
-      "s",
-    ];
-    for (const suffix of suffixes) {
-      if (word.endsWith(suffix) && word.length > suffix.length + 2) {
-        return word.slice(0, -suffix.length);
+  private recorded<T extends ToolResult>(
+    tool: RecordedTool,
+    input: object,
+    run: () => T,
+  ): T {
+    const now = this.clock();
+    const clock = this.clock;
+    this.clock = () => now;
+    // A failed call leaves no session behind, not even one it created
+    const known = new Set(this.sessions.keys());
+    const defaultSessionId = this.defaultSessionId;
+    const record = (output: RecordedOutput) =>
+      this.recorder?.record({
+        tool,
+        at: new Date(now).toISOString(),
+        input: { ...input },
+        output,
+      });
+    try {
+      const result = run();
+      record({
+        text: result.content.map((c) => c.text).join("\n"),
+        structuredContent: result.structuredContent,
+      });
+      return result;
+    } catch (e) {
+      for (const id of this.sessions.keys()) {
+        if (!known.has(id)) this.sessions.delete(id);
       }
+      this.defaultSessionId = defaultSessionId;
+      const error = e instanceof Error ? e.message : String(e);
+      record({ error });
+      // Messages quote concepts, so they are redacted like them
+      const sessionId = (input as { sessionId?: string }).sessionId ?? null;
+      this.logger.log("error", "call_failed", {
+        tool,
+        sessionId,
+        error: this.logger.text(error),
+      });
+      this.logger.log("debug", "call_failed_input", {
+        tool,
+        sessionId,
+        input: this.redacted(input),
+      });
+      throw e;
+    } finally {
+      this.clock = clock;
     }
-    return word;
   }
 
-  private distance(a: string, b: string): number {
-    const s1 = a.toLowerCase().trim();
-    const s2 = b.toLowerCase().trim();
+  // Every string in a tool input as it may appear in a log line
+  private redacted(value: unknown): unknown {
+    if (typeof value === "string") return this.logger.text(value);
+    if (Array.isArray(value)) return value.map((v) => this.redacted(v));
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, this.redacted(v)]),
+      );
+    }
+    return value;
+  }
 
-    if (s1 === s2) return 0;
-    if (!s1 || !s2) return 1;
+  // Unseeded ids are random UUIDs; seeded ones repeat with the seed
+  private newId(): string {
+    if (!this.ids) return randomUUID();
+    let id: string;
+    do id = randomId(this.ids);
+    while (this.sessions.has(id));
+    return id;
+  }
 
-    // Get meaningful words (filter stop words), then stem
-    const words1 = s1
-      .split(/\s+/)
-      .filter((w) => !STOP_WORDS.has(w) && w.length > 1)
-      .map((w) => this.stem(w));
-    const words2 = s2
-      .split(/\s+/)
-      .filter((w) => !STOP_WORDS.has(w) && w.length > 1)
-      .map((w) => this.stem(w));
+  /**
+   * Chance for one step. A session's own seed wins over the server's; either
+   * way each step draws from its own generator, so a step's choices don't
+   * depend on how many calls other sessions made in between.
+   */
+  private randomFor(
+    session: DreamSession,
+    branch: DreamBranch,
+    step: number,
+  ): Random {
+    const seed =
+      session.seed ??
+      (this.seed === null ? null : `${this.seed}:${session.id}`);
+    return seed === null
+      ? Math.random
+      : seededRandom(`${seed}:${branch.id}:${step}`);
+  }
 
-    // If all words were stop words, use originals (stemmed)
-    const set1 = new Set(
-      words1.length > 0 ? words1 : s1.split(/\s+/).map((w) => this.stem(w)),
-    );
-    const set2 = new Set(
-      words2.length > 0 ? words2 : s2.split(/\s+/).map((w) => this.stem(w)),
+  // ==========================================================================
+  // SESSIONS
+  // ==========================================================================
+
+  private newSession(id: string, seed: string | null = null): DreamSession {
+    const now = this.clock();
+    const session: DreamSession = {
+      id,
+      status: "open",
+      createdAt: now,
+      seed,
+      branches: [newBranch(MAIN_BRANCH, now)],
+      activeBranch: MAIN_BRANCH,
+      graph: emptyGraph(),
+      clusters: [],
+      insight: null,
+      topics: [],
+      errors: [],
+      checks: [],
+      verdicts: [],
+    };
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  /**
+   * Resolve the session a call operates on. Calls without an id go to the
+   * default session; once that is closed, a fresh one takes its place.
+   * Unknown ids are created on first use, and dropped again by recorded()
+   * if the call fails.
+   */
+  private session(id?: string): DreamSession {
+    if (id === undefined) {
+      const current = this.sessions.get(this.defaultSessionId);
+      if (current && current.status === "open") return current;
+      if (current) this.defaultSessionId = this.newId();
+      return this.newSession(this.defaultSessionId);
+    }
+    const existing = this.sessions.get(id);
+    if (!existing) return this.newSession(id);
+    if (existing.status === "closed") {
+      throw new Error(`Session "${id}" is closed`);
+    }
+    return existing;
+  }
+
+  /**
+   * Resolve the session a read-only call looks at. Unlike session(), this
+   * never creates or replaces one: closed sessions can be read, unknown ids
+   * and a default session that doesn't exist yet are errors.
+   */
+  private existingSession(id?: string): DreamSession {
+    const session = this.sessions.get(id ?? this.defaultSessionId);
+    if (session) return session;
+    throw new Error(
+      id === undefined
+        ? "No dream session yet — call dream first"
+        : `Unknown session "${id}"`,
     );
+  }
 
-    // Check synonym clusters (on stemmed words)
-    for (const w1 of set1) {
-      for (const w2 of set2) {
-        const c1 = CLUSTER_MAP.get(w1);
-        const c2 = CLUSTER_MAP.get(w2);
-        if (c1 !== undefined && c1 === c2) return 0.15;
-      }
+  /**
+   * The session an HTTP connection's calls without a sessionId go to. Each
+   * connection starts with its own, named after it, and like the default
+   * session it is replaced by a fresh one once closed. Read-only calls and
+   * outcome reports, which follow a synthesize, keep the closed one
+   * (`keepClosed`). Replacement ids are random UUIDs, like the
+   * connection ids: recordings carry them in each call's input, so drawing
+   * them from the seeded ids would only shift the ids replay expects.
+   */
+  public connectionSession(connectionId: string, keepClosed = false): string {
+    const current = this.connectionDefaults.get(connectionId) ?? connectionId;
+    if (keepClosed || this.sessions.get(current)?.status !== "closed") {
+      return current;
     }
+    const id = randomUUID();
+    this.connectionDefaults.set(connectionId, id);
+    return id;
+  }
 
-    // Word-level Jaccard (50% weight) - standard NLP metric
-    // Reference: https://www.learndatasci.com/glossary/jaccard-similarity/
-    const wordIntersection = [...set1].filter((x) => set2.has(x)).length;
-    const wordUnion = new Set([...set1, ...set2]).size;
-    const wordJaccard = wordUnion > 0 ? 1 - wordIntersection / wordUnion : 1;
+  // Forget a finished connection. Its sessions stay, like any other.
+  public releaseConnection(connectionId: string): void {
+    this.connectionDefaults.delete(connectionId);
+  }
 
-    // Character trigram Jaccard (30% weight) - catches fuzzy/partial matches
-    // Reference: https://pubmed.ncbi.nlm.nih.gov/15747904/
-    const trigrams = (s: string): Set<string> => {
-      const result = new Set<string>();
-      const normalized = s.replace(/\s+/g, " ");
-      for (let i = 0; i <= normalized.length - 3; i++) {
-        result.add(normalized.substring(i, i + 3));
-      }
-      return result;
+  private summarize(session: DreamSession): SessionSummary {
+    const branch = this.activeBranchOf(session);
+    return {
+      sessionId: session.id,
+      status: session.status,
+      isDefault: session.id === this.defaultSessionId,
+      createdAt: new Date(session.createdAt).toISOString(),
+      activeBranch: branch.id,
+      branches: session.branches.length,
+      steps: branch.steps.length,
+      checks: session.checks.length,
+      lastConcept: branch.steps[branch.steps.length - 1]?.concept ?? null,
+    };
+  }
+
+  // ==========================================================================
+  // BRANCHES
+  // ==========================================================================
+
+  private activeBranchOf(session: DreamSession): DreamBranch {
+    return session.branches.find((b) => b.id === session.activeBranch)!;
+  }
+
+  private summarizeBranch(
+    session: DreamSession,
+    branch: DreamBranch,
+  ): BranchSummary {
+    return {
+      branchId: branch.id,
+      parent: branch.parent,
+      forkStep: branch.forkStep,
+      active: branch.id === session.activeBranch,
+      steps: branch.steps.length,
+      lastConcept: branch.steps[branch.steps.length - 1]?.concept ?? null,
+      avgDistance: avgDistance(branch.steps),
+      stuckCount: stuckCount(branch.steps),
     };
-    const tg1 = trigrams(s1);
-    const tg2 = trigrams(s2);
-    const tgIntersection = [...tg1].filter((x) => tg2.has(x)).length;
-    const tgUnion = new Set([...tg1, ...tg2]).size;
-    const trigramJaccard = tgUnion > 0 ? 1 - tgIntersection / tgUnion : 1;
-
-    // Length ratio penalty (20% weight) - very different lengths = more distant
-    const lenRatio =
-      Math.min(s1.length, s2.length) / Math.max(s1.length, s2.length);
-    const lengthPenalty = 1 - lenRatio;
-
-    // Weighted combination (matches original README specification)
-    return Math.min(
-      1,
-      Math.max(
-        0,
-        wordJaccard * 0.5 + trigramJaccard * 0.3 + lengthPenalty * 0.2,
-      ),
-    );
   }
 
-  private isStuck(): boolean {
-    if (this.path.length < 3) return false;
-    const recent = this.path.slice(-3);
-    const d1 = this.distance(recent[0], recent[1]);
-    const d2 = this.distance(recent[1], recent[2]);
-    const d3 = this.distance(recent[0], recent[2]);
-    // Threshold raised slightly - if avg distance < 0.4, you're circling
-    return (d1 + d2 + d3) / 3 < 0.4;
+  /**
+   * Resolve a step reference on a branch (fork points, synthesis sources): a
+   * step number, or a concept matched like returns are (exact, then closest
+   * within MATCH_THRESHOLD; the latest step wins ties). `param` names the
+   * input in errors.
+   */
+  private resolveStep(
+    branch: DreamBranch,
+    ref: number | string,
+    measure: (a: string, b: string) => number,
+    param: string,
+  ): number {
+    if (typeof ref === "number") {
+      if (!Number.isInteger(ref) || ref < 1 || ref > branch.steps.length) {
+        throw new Error(
+          `${param} ${ref} is not a step on branch "${branch.id}" (1-${branch.steps.length})`,
+        );
+      }
+      return ref;
+    }
+    let best: { step: number; d: number } | null = null;
+    for (const s of branch.steps) {
+      const d =
+        s.concept.toLowerCase().trim() === ref.toLowerCase().trim()
+          ? 0
+          : measure(s.concept, ref);
+      if (d <= MATCH_THRESHOLD && (!best || d <= best.d)) {
+        best = { step: s.step, d };
+      }
+    }
+    if (!best) {
+      throw new Error(
+        `${param} "${ref}" doesn't match any step on branch "${branch.id}"`,
+      );
+    }
+    return best.step;
   }
 
   // ==========================================================================
-  // TOOL: Dream (main exploration)
+  // READ ACCESS (for MCP resources)
   // ==========================================================================
 
-  public dream(input: DreamInput): {
-    content: Array<{ type: "text"; text: string }>;
-    structuredContent: Record<string, unknown>;
+  public listSessions(): SessionSummary[] {
+    return [...this.sessions.values()].map((s) => this.summarize(s));
+  }
+
+  /**
+   * Full step history of a session. Unlike dream(), this never creates or
+   * reopens a session.
+   */
+  public sessionSteps(id: string): {
+    sessionId: string;
+    status: "open" | "closed";
+    activeBranch: string;
+    steps: DreamStep[]; // on the active branch
+    branches: BranchSummary[];
   } {
-    if (input.reset) {
-      this.path = [];
-      this.distances = [];
-      this.stuckCount = 0;
-      this.topicCounts.clear();
-      this.errorCounts.clear();
-      this.checkCount = 0;
+    const session = this.sessions.get(id);
+    if (!session) throw new Error(`Unknown session "${id}"`);
+    return {
+      sessionId: session.id,
+      status: session.status,
+      activeBranch: session.activeBranch,
+      steps: this.activeBranchOf(session).steps.map((s) => ({ ...s })),
+      branches: session.branches.map((b) => this.summarizeBranch(session, b)),
+    };
+  }
+
+  // ==========================================================================
+  // CORE: Semantic Distance (the "dumb mirror")
+  // ==========================================================================
+
+  private vocabularyFor(session: DreamSession): Vocabulary {
+    let vocabulary = this.sessionVocabularies.get(session);
+    if (!vocabulary) {
+      vocabulary = this.vocabulary.extend(session.clusters);
+      this.sessionVocabularies.set(session, vocabulary);
     }
+    return vocabulary;
+  }
+
+  private measure(
+    a: string,
+    b: string,
+    vocabulary: Vocabulary,
+  ): { distance: number; metric: string } {
+    const d = this.metric.distance(a, b, vocabulary);
+    if (d !== null) return { distance: d, metric: this.metric.name };
+    return {
+      distance: this.lexical.distance(a, b, vocabulary),
+      metric: this.lexical.name,
+    };
+  }
+
+  private distance(a: string, b: string, vocabulary: Vocabulary): number {
+    return this.measure(a, b, vocabulary).distance;
+  }
+
+  // ==========================================================================
+  // TOOL: Dream (main exploration)
+  // ==========================================================================
+
+  public dream(input: DreamInput): ToolResult<DreamResult> {
+    return this.recorded("dream", input, () => this.takeStep(input));
+  }
+
+  private takeStep(input: DreamInput): ToolResult<DreamResult> {
+    const session = this.session(input.sessionId);
+    const vocabulary = this.vocabularyFor(session);
+    const measure = (a: string, b: string) => this.distance(a, b, vocabulary);
+    const now = this.clock();
 
     const concept = input.concept.trim();
     const chaos = input.chaosLevel ?? 0.5;
 
+    // Validate before touching any state so a bad call leaves the session
+    // as it was. Forks start from a step on the active branch.
+    let forkStep: number | null = null;
+    if (input.branchFrom !== undefined) {
+      if (input.reset) {
+        throw new Error("Can't reset and branch in the same call");
+      }
+      forkStep = this.resolveStep(
+        this.activeBranchOf(session),
+        input.branchFrom,
+        measure,
+        "branchFrom",
+      );
+    }
+
+    // Returns must point at a concept already on the path
+    let returnMatch: NodeMatch | null = null;
+    if (input.isReturn && input.returnsTo) {
+      const graph = input.reset ? emptyGraph() : session.graph;
+      returnMatch = findNode(graph, input.returnsTo, measure);
+      if (!returnMatch) {
+        const earlier = graph.nodes
+          .filter((n) => !n.external)
+          .map((n) => `"${n.concept}"`);
+        throw new Error(
+          `returnsTo "${input.returnsTo}" doesn't match any earlier concept` +
+            (earlier.length > 0 ? `. Earlier: ${earlier.join(", ")}` : ""),
+        );
+      }
+    }
+
+    // Reset only clears the exploration - dreamcheck state survives
+    if (input.reset) {
+      session.branches = [newBranch(MAIN_BRANCH, now)];
+      session.activeBranch = MAIN_BRANCH;
+      session.graph = emptyGraph();
+    }
+
+    // Fork: the new sibling shares the prefix and becomes the active branch
+    let forkedFrom: { branch: string; step: number } | null = null;
+    if (forkStep !== null) {
+      const parent = this.activeBranchOf(session);
+      const fork = newBranch(
+        `b${session.branches.length + 1}`,
+        now,
+        parent,
+        forkStep,
+      );
+      session.branches.push(fork);
+      session.activeBranch = fork.id;
+      forkedFrom = { branch: parent.id, step: forkStep };
+    }
+
+    const branch = this.activeBranchOf(session);
+    const path = branch.steps.map((s) => s.concept);
+    const previous = branch.steps[branch.steps.length - 1];
+
     // Compute distance from previous concept
     let surfaceDist: number | null = null;
+    let surfaceMetric: string | null = null;
     let dist: number | null = null;
-    let calibration: string | null = null;
-    let llmOverride = false;
+    let calibration: Calibration | null = null;
 
-    if (this.path.length > 0 && !input.isReturn) {
+    if (path.length > 0 && !input.isReturn) {
       // MCP computes surface distance
-      surfaceDist = this.distance(this.path[this.path.length - 1], concept);
+      const surface = this.measure(path[path.length - 1], concept, vocabulary);
+      surfaceDist = surface.distance;
+      surfaceMetric = surface.metric;
 
       // If LLM provided semantic assessment, blend it (LLM knows meaning, MCP knows surface)
       // 60% LLM semantic, 40% MCP surface - LLM's understanding is deeper
       if (input.semanticDistance !== undefined) {
         dist = input.semanticDistance * 0.6 + surfaceDist * 0.4;
-        llmOverride = true;
       } else {
         dist = surfaceDist;
       }
 
-      this.distances.push(dist);
-
-      const diff = dist - chaos;
-      calibration =
-        diff < -0.25 ? "conservative" : diff > 0.25 ? "wild" : "on-target";
+      calibration = calibrate(dist, chaos);
     }
 
-    // Collision tension
+    // Collision tension - every member against every other, each matched to
+    // a visited concept if it refers to one
+    const collidesWith = input.isCollision
+      ? collisionTargets(input.collidesWith)
+      : [];
+    let collision: Collision | null = null;
     let tension: number | null = null;
-    if (input.isCollision && input.collidesWith) {
-      tension = this.distance(concept, input.collidesWith);
+    const collisionMatches = collidesWith.map((c) =>
+      findNode(session.graph, c, measure),
+    );
+    if (collidesWith.length > 0) {
+      collision = collide([concept, ...collidesWith], measure);
+      tension = collision.friction;
     }
 
     // For returns, compute distance back to original
     let returnDist: number | null = null;
-    if (input.isReturn && input.returnsTo) {
-      returnDist = this.distance(concept, input.returnsTo);
+    if (returnMatch) {
+      returnDist = measure(concept, returnMatch.node.concept);
     }
 
     // Track path
-    this.path.push(concept);
+    path.push(concept);
+    const step = path.length;
+    const graph = session.graph;
+    const node = visit(graph, concept, branch.id, step);
+    if (returnMatch) {
+      addEdge(graph, {
+        from: node.id,
+        to: returnMatch.node.id,
+        kind: "return",
+        branch: branch.id,
+        step,
+        weight: returnDist,
+      });
+    } else if (previous) {
+      addEdge(graph, {
+        from: previous.node,
+        to: node.id,
+        kind: "drift",
+        branch: branch.id,
+        step,
+        weight: dist,
+      });
+    }
+    const collisionNodes = collidesWith.map((c, i) => {
+      const target = collisionMatches[i]?.node ?? externalNode(graph, c);
+      addEdge(graph, {
+        from: node.id,
+        to: target.id,
+        kind: "collision",
+        branch: branch.id,
+        step,
+        weight: collision!.matrix[0][i + 1],
+      });
+      return target.id;
+    });
 
-    // Stuck detection
-    const stuck = this.isStuck();
-    if (stuck) this.stuckCount++;
+    // Stuck detection over the branch, judged at this step
+    const stuckReasons = analyzeStuck(
+      [
+        ...branch.steps,
+        { step, concept, distance: dist, isReturn: input.isReturn ?? false },
+      ],
+      measure,
+      this.messages,
+    );
+    const stuck = stuckReasons.length > 0;
 
-    // Build output
-    const step = this.path.length;
-    const icon = input.isCollision ? "💥" : input.isReturn ? "🔄" : "🌀";
+    const current: DreamStep = {
+      step,
+      concept,
+      node: node.id,
+      chaosLevel: chaos,
+      distance: dist,
+      surfaceDistance: surfaceDist,
+      surfaceMetric,
+      llmSemanticDistance: input.semanticDistance ?? null,
+      calibration,
+      tension,
+      isReturn: input.isReturn ?? false,
+      returnsTo: returnMatch?.node.concept ?? null,
+      returnDistance: returnDist,
+      isCollision: input.isCollision ?? false,
+      collidesWith,
+      collision,
+      stuck,
+      stuckReasons,
+      at: new Date(now).toISOString(),
+    };
+    branch.steps.push(current);
 
-    let output = `${icon} Step ${step}: ${concept}`;
+    // Learn the model's bias from every measured leap in the session
+    const adaptive = analyzeCalibration(
+      takenSteps(session).flatMap((s) =>
+        s.distance !== null && s.calibration !== null
+          ? [
+              {
+                step: s.step,
+                chaosLevel: s.chaosLevel,
+                distance: s.distance,
+                calibration: s.calibration,
+              },
+            ]
+          : [],
+      ),
+      this.messages,
+    );
 
-    // Show return context
-    if (input.isReturn && input.returnsTo) {
-      output += `\n   ↩ Returning to: "${input.returnsTo}"`;
-      if (returnDist !== null) {
-        const transformed =
-          returnDist > 0.5
-            ? "transformed"
-            : returnDist > 0.25
-              ? "shifted"
-              : "similar";
-        output += ` (${transformed})`;
+    // Stuck: offer concrete concepts measured to be far from the circling,
+    // falling back to a canned prompt when the lexicon has nothing far enough
+    let suggestions: Suggestion[] = [];
+    let prompt: string | null = null;
+    if (stuck) {
+      suggestions = suggestConcepts(
+        path,
+        chaos,
+        vocabulary,
+        measure,
+        stuckCount(branch.steps),
+      );
+      if (suggestions.length === 0) {
+        const key = pick(PROMPTS, this.randomFor(session, branch, step));
+        prompt = formatMessage(this.messages, key);
       }
     }
 
-    if (dist !== null) {
-      const bar =
-        "█".repeat(Math.round(dist * 10)) +
-        "░".repeat(10 - Math.round(dist * 10));
-      const emoji = { conservative: "🐢", "on-target": "✓", wild: "🔥" }[
-        calibration!
-      ];
-      output += `\n   Distance: ${dist.toFixed(2)} [${bar}] ${emoji}`;
-      // Show when LLM's semantic understanding corrected the surface measurement
-      if (llmOverride && surfaceDist !== null) {
-        const diff = Math.abs(surfaceDist - input.semanticDistance!);
-        if (diff > 0.3) {
-          output += `\n   ⚡ Semantic override: surface=${surfaceDist.toFixed(2)}, you saw=${input.semanticDistance!.toFixed(2)}`;
-        }
-      }
-    }
+    this.persist();
 
-    if (tension !== null) {
-      const label =
-        tension > 0.7 ? "HIGH ⚡" : tension > 0.4 ? "MEDIUM" : "LOW ⚠️";
-      output += `\n   Collision tension: ${tension.toFixed(2)} ${label}`;
-      if (tension < 0.4) {
-        output += "\n   → Concepts too similar, try a more distant collision";
-      }
-    }
+    // Audit trail: what was explored and what the MCP measured
+    const text = (v: string | undefined) =>
+      v === undefined ? null : this.logger.text(v);
+    this.logger.log("info", "dream", {
+      sessionId: session.id,
+      branch: branch.id,
+      step,
+      input: {
+        concept: text(concept),
+        chaosLevel: chaos,
+        semanticDistance: input.semanticDistance ?? null,
+        isReturn: current.isReturn,
+        returnsTo: text(input.returnsTo),
+        isCollision: current.isCollision,
+        collidesWith: collidesWith.map((c) => this.logger.text(c)),
+        branchFrom:
+          typeof input.branchFrom === "string"
+            ? text(input.branchFrom)
+            : (input.branchFrom ?? null),
+        reset: input.reset ?? false,
+      },
+      distance: dist,
+      surfaceDistance: surfaceDist,
+      surfaceMetric,
+      calibration,
+      bias: adaptive.bias,
+      nextChaosLevel: adaptive.nextChaosLevel,
+      tension,
+      swapOut: collision?.swapOut ? text(collision.swapOut.member) : null,
+      returnDistance: returnDist,
+      stuck,
+      stuckReasons: stuckReasons.map((r) => ({ type: r.type, steps: r.steps })),
+      suggestions: suggestions.map((s) => text(s.concept)),
+    });
+    // The measurements behind it, for tuning thresholds
+    this.logger.log("debug", "dream_detail", {
+      sessionId: session.id,
+      branch: branch.id,
+      step,
+      calibrationSamples: adaptive.samples,
+      calibrationPatterns: adaptive.patterns.map((p) => ({
+        type: p.type,
+        steps: p.steps,
+      })),
+      collision: collision && {
+        members: collision.members.map((m) => this.logger.text(m)),
+        matrix: collision.matrix,
+        friction: collision.friction,
+      },
+      suggestions: suggestions.map((s) => ({
+        concept: this.logger.text(s.concept),
+        domain: s.domain,
+        predictedDistance: s.predictedDistance,
+        nearestDistance: s.nearestDistance,
+      })),
+    });
 
-    if (stuck) {
-      const prompt = PROMPTS[Math.floor(Math.random() * PROMPTS.length)];
-      output += `\n   ⚠️ STUCK — ${prompt}`;
-    }
+    const result: DreamResult = {
+      schemaVersion: DREAM_RESULT_VERSION,
+      step,
+      concept,
+      distance: dist,
+      surfaceDistance: surfaceDist,
+      surfaceMetric,
+      llmSemanticDistance: input.semanticDistance ?? null,
+      calibration,
+      bias: adaptive.bias,
+      nextChaosLevel: adaptive.nextChaosLevel,
+      calibrationPatterns: adaptive.patterns,
+      tension,
+      returnTo: returnMatch?.node.concept ?? null,
+      returnDistance: returnDist,
+      returnMatch: returnMatch && {
+        node: returnMatch.node.id,
+        concept: returnMatch.node.concept,
+        distance: returnMatch.distance,
+      },
+      collision,
+      collisionMatches: collidesWith.map((c, i) => ({
+        node: collisionNodes[i],
+        concept: collisionMatches[i]?.node.concept ?? c,
+        external: !collisionMatches[i],
+      })),
+      stuck,
+      stuckReasons,
+      suggestions,
+      path,
+      node: node.id,
+      graph: graphStats(graph),
+      branch: branch.id,
+      forkedFrom,
+      avgDistance: avgDistance(branch.steps),
+      stuckCount: stuckCount(branch.steps),
+      sessionId: session.id,
+    };
 
+    const structured = validated("dream", DreamResultSchema, result);
+    const output = renderDream(
+      {
+        result: structured,
+        isReturn: current.isReturn,
+        isCollision: current.isCollision,
+        revisits: node.visits
+          .slice(0, -1)
+          .map((v) => formatVisit(v, branch.id)),
+        prompt,
+      },
+      input.render ?? this.render,
+      this.messages,
+    );
     return {
       content: [{ type: "text", text: output }],
-      structuredContent: {
-        step,
-        concept,
-        distance: dist,
-        surfaceDistance: surfaceDist,
-        llmSemanticDistance: input.semanticDistance ?? null,
-        calibration,
-        tension,
-        returnTo: input.returnsTo || null,
-        returnDistance: returnDist,
-        stuck,
-        path: [...this.path],
-        avgDistance:
-          this.distances.length > 0
-            ? this.distances.reduce((a, b) => a + b, 0) / this.distances.length
-            : null,
-        stuckCount: this.stuckCount,
-      },
+      structuredContent: structured,
     };
   }
 
@@ -400,134 +1172,729 @@ export class AssociativeDreamingServer {
   // TOOL: Check (should I dream?)
   // ==========================================================================
 
-  public check(input: CheckInput): {
-    content: Array<{ type: "text"; text: string }>;
-    structuredContent: Record<string, unknown>;
-  } {
-    this.checkCount++;
+  public check(input: CheckInput): ToolResult<CheckResult> {
+    return this.recorded("dreamcheck", input, () => this.scoreCheck(input));
+  }
 
-    const topic = input.topic.toLowerCase().trim();
-    this.topicCounts.set(topic, (this.topicCounts.get(topic) || 0) + 1);
+  private scoreCheck(input: CheckInput): ToolResult<CheckResult> {
+    const session = this.session(input.sessionId);
+    const now = this.clock();
+    session.checks.push(now);
 
-    // Dedupe errors within this call, then track
-    if (input.errors) {
-      const uniqueErrors = [
-        ...new Set(input.errors.map((e) => e.toLowerCase().trim())),
-      ];
-      for (const e of uniqueErrors) {
-        this.errorCounts.set(e, (this.errorCounts.get(e) || 0) + 1);
-      }
+    const vocabulary = this.vocabularyFor(session);
+    const measure = (a: string, b: string) => this.distance(a, b, vocabulary);
+
+    // Close wordings of a topic or error count as the same one
+    const topic = normalizeTopic(input.topic);
+    const topicGroup = groupFor(
+      session.topics,
+      topic,
+      topic,
+      vocabulary,
+      measure,
+    );
+    topicGroup.seen.push(now);
+
+    // Errors merge on their normalized form; a group counts once per call
+    const touched = new Set<SignalGroup>();
+    for (const error of input.errors ?? []) {
+      const wording = error.trim().split("\n")[0].trim().toLowerCase();
+      if (!wording) continue;
+      touched.add(
+        groupFor(
+          session.errors,
+          wording,
+          normalizeError(error),
+          vocabulary,
+          measure,
+        ),
+      );
     }
+    for (const group of touched) group.seen.push(now);
 
-    // Score signals
-    const signals: string[] = [];
-    let score = 0;
+    // Score signals with the configured profile's weights, scaled by how
+    // often each signal's dreams helped when adapting. Evidence from earlier
+    // calls fades with the profile's half-life: a pattern is as old as the
+    // oldest occurrence it needs ("3x" is as fresh as the 3rd latest).
+    const { weights, halfLifeMinutes } = this.scoring;
+    const adjustments = this.adaptWeights
+      ? weightAdjustments(signalOutcomes(this.allVerdicts()))
+      : {};
+    const contributions: SignalContribution[] = [];
+    const add = (signal: SignalName, label: string, since?: number) => {
+      const ageMs = since === undefined ? 0 : Math.max(0, now - since);
+      const decay = decayFactor(ageMs, halfLifeMinutes);
+      const adjustment = adjustments[signal] ?? 1;
+      contributions.push({
+        signal,
+        label,
+        weight: weights[signal] * adjustment * decay,
+        baseWeight: weights[signal],
+        adjustment,
+        age: since === undefined ? null : Math.round(ageMs / 1000),
+      });
+    };
+    const nthLatest = (times: number[], n: number) => times[times.length - n];
+    const say = (key: MessageKey, params?: MessageParams) =>
+      formatMessage(this.messages, key, params);
 
     // Topic repetition
-    const topicN = this.topicCounts.get(topic) || 0;
+    const topicN = topicGroup.seen.length;
     if (topicN >= 3) {
-      score += 0.35;
-      signals.push(`Topic repeated ${topicN}x`);
+      add(
+        "topicRepeated",
+        say("signal.topicRepeated", { count: topicN }),
+        nthLatest(topicGroup.seen, 3),
+      );
     } else if (topicN >= 2) {
-      score += 0.2;
-      signals.push(`Topic revisited`);
+      add(
+        "topicRevisited",
+        say("signal.topicRevisited"),
+        nthLatest(topicGroup.seen, 2),
+      );
     }
 
     // Repeated errors (threshold lowered - 2+ means recurring)
-    const repeats = [...this.errorCounts.entries()].filter(([_, n]) => n >= 2);
+    const repeats = session.errors.filter((g) => g.seen.length >= 2);
     if (repeats.length > 0) {
-      score += 0.3;
-      signals.push(
-        `Errors recurring: ${repeats.map(([e, n]) => `"${e}" (${n}x)`).join(", ")}`,
+      add(
+        "errorsRecurring",
+        say("signal.errorsRecurring", {
+          errors: repeats
+            .map((g) =>
+              say("signal.recurringError", {
+                error: g.label,
+                count: g.seen.length,
+              }),
+            )
+            .join(", "),
+        }),
+        Math.max(...repeats.map((g) => nthLatest(g.seen, 2))),
       );
     }
 
     // Even single errors are signal
-    const totalErrors = [...this.errorCounts.values()].reduce(
-      (a, b) => a + b,
-      0,
-    );
+    const totalErrors = session.errors.reduce((n, g) => n + g.seen.length, 0);
     if (totalErrors > 0 && repeats.length === 0) {
-      score += 0.1;
-      signals.push(`${totalErrors} error(s) seen`);
+      add(
+        "errorsSeen",
+        say("signal.errorsSeen", { count: totalErrors }),
+        Math.max(...session.errors.map((g) => nthLatest(g.seen, 1))),
+      );
     }
 
     // Attempts - give partial credit even for low counts
     if (input.attempts !== undefined) {
-      if (input.attempts >= 4) {
-        score += 0.3;
-        signals.push(`${input.attempts} attempts — significant effort`);
-      } else if (input.attempts >= 2) {
-        score += 0.15;
-        signals.push(`${input.attempts} attempts`);
-      } else if (input.attempts === 1) {
-        score += 0.05;
-        signals.push(`1 attempt`);
+      const count = input.attempts;
+      if (count >= 4) {
+        add("attemptsMany", say("signal.attemptsMany", { count }));
+      } else if (count >= 2) {
+        add("attemptsSome", say("signal.attemptsSome", { count }));
+      } else if (count === 1) {
+        add("attemptsOne", say("signal.attemptsOne"));
       }
     }
 
     // Sentiment
     if (input.sentiment === "stuck") {
-      score += 0.35;
-      signals.push("User stuck");
+      add("sentimentStuck", say("signal.sentimentStuck"));
     } else if (input.sentiment === "frustrated") {
-      score += 0.25;
-      signals.push("User frustrated");
+      add("sentimentFrustrated", say("signal.sentimentFrustrated"));
     } else if (input.sentiment === "exploring") {
-      score += 0.2;
-      signals.push("Exploratory mode");
+      add("sentimentExploring", say("signal.sentimentExploring"));
     } else if (input.sentiment === "curious") {
-      score += 0.1;
-      signals.push("Curious tone");
+      add("sentimentCurious", say("signal.sentimentCurious"));
     }
 
     // Custom signal
     if (input.signal) {
-      score += 0.15;
-      signals.push(input.signal);
+      add("customSignal", input.signal);
     }
 
     // Active dream session
-    if (this.path.length > 0) {
-      score += 0.1;
-      signals.push("Dream session active");
+    const lastStep = this.activeBranchOf(session).steps.at(-1);
+    if (lastStep) {
+      add("dreamActive", say("signal.dreamActive"), Date.parse(lastStep.at));
     }
 
     // Check count itself is a signal (they keep checking = uncertainty)
-    if (this.checkCount >= 3) {
-      score += 0.1;
-      signals.push(`${this.checkCount} checks — consider drifting`);
+    const checkN = session.checks.length;
+    if (checkN >= 3) {
+      add(
+        "manyChecks",
+        say("signal.manyChecks", { count: checkN }),
+        nthLatest(session.checks, 3),
+      );
     }
 
+    const signals = contributions.map((c) => c.label);
+    const score = contributions.reduce((sum, c) => sum + c.weight, 0);
     const confidence = Math.min(1, score);
-    const shouldDream = confidence >= 0.35; // Lowered threshold slightly
-    const chaosHint = confidence >= 0.7 ? 0.7 : confidence >= 0.5 ? 0.5 : 0.4;
+    // Judged at the percentage shown, so float noise in the sum can't put a
+    // "35%" under a 0.35 threshold
+    const level = Math.round(confidence * 100) / 100;
+    const shouldDream = level >= this.scoring.threshold;
+    const chaosHint = level >= 0.7 ? 0.7 : level >= 0.5 ? 0.5 : 0.4;
 
-    const emoji = shouldDream ? "🌀" : "💭";
-    const verdict = shouldDream
-      ? `YES (${Math.round(confidence * 100)}%)`
-      : `NOT YET (${Math.round(confidence * 100)}%)`;
+    session.verdicts.push({
+      check: session.checks.length,
+      topic: topicGroup.key,
+      shouldDream,
+      confidence,
+      signals: contributions.map((c) => c.signal),
+      outcome: null,
+      reportedAt: null,
+    });
+    this.persist();
 
-    let output = `${emoji} ${verdict}`;
-    if (signals.length > 0) {
-      output += "\n" + signals.map((s) => `   • ${s}`).join("\n");
+    const text = (v: string) => this.logger.text(v);
+    this.logger.log("info", "dreamcheck", {
+      sessionId: session.id,
+      input: {
+        topic: text(input.topic),
+        attempts: input.attempts ?? null,
+        errors: (input.errors ?? []).map(text),
+        sentiment: input.sentiment ?? null,
+        signal: input.signal === undefined ? null : text(input.signal),
+      },
+      topicGroup: text(topicGroup.label),
+      topicCount: topicN,
+      totalErrors,
+      contributions: contributions.map((c) => ({
+        signal: c.signal,
+        weight: c.weight,
+        age: c.age,
+      })),
+      confidence,
+      threshold: this.scoring.threshold,
+      profile: this.scoring.name,
+      shouldDream,
+    });
+    this.logger.log("debug", "dreamcheck_detail", {
+      sessionId: session.id,
+      contributions: contributions.map((c) => ({
+        signal: c.signal,
+        baseWeight: c.baseWeight,
+        adjustment: c.adjustment,
+        weight: c.weight,
+        age: c.age,
+      })),
+      topicVariants: topicGroup.variants.map(text),
+      errorGroups: [...touched].map((g) => ({
+        label: text(g.label),
+        seen: g.seen.length,
+      })),
+    });
+
+    const result: CheckResult = {
+      schemaVersion: CHECK_RESULT_VERSION,
+      shouldDream,
+      confidence,
+      signals,
+      contributions,
+      profile: this.scoring.name,
+      threshold: this.scoring.threshold,
+      adaptive: this.adaptWeights,
+      suggestedChaos: shouldDream ? chaosHint : null,
+      suggestedStart: shouldDream ? input.topic : null,
+      checkCount: session.checks.length,
+      halfLifeMinutes,
+      topicCount: topicN,
+      totalErrors,
+      topicGroup: { ...topicGroup },
+      errorGroups: session.errors.map((g) => ({ ...g })),
+      sessionId: session.id,
+    };
+
+    const structured = validated("dreamcheck", CheckResultSchema, result);
+    const grouped = [
+      { kind: "topic" as const, group: topicGroup },
+      ...[...touched].map((group) => ({ kind: "error" as const, group })),
+    ].filter(({ group }) => group.variants.length >= 2);
+    const output = renderCheck(
+      { result: structured, topic: input.topic, grouped },
+      input.render ?? this.render,
+      this.messages,
+    );
+    return {
+      content: [{ type: "text", text: output }],
+      structuredContent: structured,
+    };
+  }
+
+  // ==========================================================================
+  // TOOL: Outcome (did dreaming help?)
+  // ==========================================================================
+
+  // Every dreamcheck verdict this server remembers, across sessions
+  private allVerdicts(): Verdict[] {
+    return [...this.sessions.values()].flatMap((s) => s.verdicts);
+  }
+
+  public reportOutcome(input: OutcomeInput): ToolResult {
+    return this.recorded("dream_outcome", input, () =>
+      this.applyOutcome(input),
+    );
+  }
+
+  private applyOutcome(input: OutcomeInput): ToolResult {
+    // Outcomes tend to arrive after synthesize closed the session, so closed
+    // sessions take them too; unknown ids don't
+    const id = input.sessionId ?? this.defaultSessionId;
+    const session = this.sessions.get(id);
+    if (!session) throw new Error(`Unknown session "${id}"`);
+    const vocabulary = this.vocabularyFor(session);
+    const measure = (a: string, b: string) => this.distance(a, b, vocabulary);
+
+    // Credit the latest check on the topic that recommended dreaming, or the
+    // latest one at all if none did
+    const group = findGroup(
+      session.topics,
+      normalizeTopic(input.topic),
+      vocabulary,
+      measure,
+    );
+    const onTopic = group
+      ? session.verdicts.filter((v) => v.topic === group.key)
+      : [];
+    const verdict =
+      [...onTopic].reverse().find((v) => v.shouldDream) ?? onTopic.at(-1);
+    if (!group || !verdict) {
+      const known = session.topics.map((t) => `"${t.label}"`);
+      throw new Error(
+        `No dreamcheck on "${input.topic}" in session "${session.id}"` +
+          (known.length > 0 ? `. Checked: ${known.join(", ")}` : ""),
+      );
     }
-    if (shouldDream) {
-      output += `\n   → Start with "${input.topic}", chaos ${chaosHint}`;
+
+    const previous = verdict.outcome;
+    verdict.outcome = input.outcome;
+    verdict.reportedAt = this.clock();
+    this.persist();
+
+    const outcomes = signalOutcomes(this.allVerdicts());
+    const reports = this.allVerdicts().filter((v) => v.outcome).length;
+    let output = `${OUTCOME_EMOJI[input.outcome]} Outcome for "${group.label}": ${input.outcome} (check ${verdict.check}, ${verdict.shouldDream ? "said YES" : "said NOT YET"})`;
+    if (previous && previous !== input.outcome) {
+      output += `\n   Replaces the earlier report: ${previous}`;
     }
+    output +=
+      verdict.signals.length > 0
+        ? `\n   Credited: ${verdict.signals.join(", ")}`
+        : "\n   No signals fired on that check, so no weight learns from it";
+    output += `\n   📊 Signal outcomes over ${reports} report(s), weights ${this.adaptWeights ? "adapting" : "fixed (set DREAM_ADAPT_WEIGHTS=true to adapt)"}:`;
+    for (const line of outcomeLines(outcomes)) output += `\n${line}`;
+
+    const text = (v: string) => this.logger.text(v);
+    this.logger.log("info", "dream_outcome", {
+      sessionId: session.id,
+      topic: text(group.label),
+      check: verdict.check,
+      outcome: input.outcome,
+      previous,
+      signals: verdict.signals,
+    });
 
     return {
       content: [{ type: "text", text: output }],
       structuredContent: {
-        shouldDream,
-        confidence,
-        signals,
-        suggestedChaos: shouldDream ? chaosHint : null,
-        suggestedStart: shouldDream ? input.topic : null,
-        checkCount: this.checkCount,
-        topicCount: topicN,
-        totalErrors,
+        sessionId: session.id,
+        topic: group.label,
+        check: verdict.check,
+        shouldDream: verdict.shouldDream,
+        confidence: verdict.confidence,
+        outcome: input.outcome,
+        previous,
+        signals: verdict.signals,
+        reports,
+        adaptive: this.adaptWeights,
+        outcomes,
       },
     };
   }
+
+  // ==========================================================================
+  // TOOL: Session (create / list / close)
+  // ==========================================================================
+
+  public manageSessions(input: SessionInput): ToolResult {
+    return this.recorded("dream_session", input, () =>
+      this.applySessionAction(input),
+    );
+  }
+
+  private applySessionAction(input: SessionInput): ToolResult {
+    if (input.action === "list") {
+      const sessions = this.listSessions();
+      const lines = sessions.map(
+        (s) =>
+          `   ${s.status === "open" ? "●" : "○"} ${s.sessionId}${s.isDefault ? " (default)" : ""} — ${s.steps} steps, ${s.checks} checks`,
+      );
+      const output =
+        sessions.length > 0
+          ? `📚 ${sessions.length} session(s)\n${lines.join("\n")}`
+          : "📚 No sessions yet";
+      return {
+        content: [{ type: "text", text: output }],
+        structuredContent: { sessions },
+      };
+    }
+
+    if (input.action === "create") {
+      const id = input.sessionId?.trim() || this.newId();
+      if (this.sessions.has(id)) {
+        throw new Error(`Session "${id}" already exists`);
+      }
+      const seed = input.seed?.trim() || null;
+      const session = this.newSession(id, seed);
+      this.persist();
+      return {
+        content: [
+          {
+            type: "text",
+            text: `✨ Session created: ${id}${seed ? ` (seed "${seed}")` : ""}`,
+          },
+        ],
+        structuredContent: { ...this.summarize(session) },
+      };
+    }
+
+    if (!input.sessionId) {
+      throw new Error("sessionId is required to close a session");
+    }
+    const session = this.sessions.get(input.sessionId);
+    if (!session) {
+      throw new Error(`Unknown session "${input.sessionId}"`);
+    }
+    session.status = "closed";
+    this.persist();
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `📕 Session closed: ${session.id} (${this.activeBranchOf(session).steps.length} steps, ${session.checks.length} checks)`,
+        },
+      ],
+      structuredContent: { ...this.summarize(session) },
+    };
+  }
+
+  // ==========================================================================
+  // TOOL: Branch (list / switch)
+  // ==========================================================================
+
+  public manageBranches(input: BranchInput): ToolResult {
+    return this.recorded("dream_branch", input, () =>
+      this.applyBranchAction(input),
+    );
+  }
+
+  private applyBranchAction(input: BranchInput): ToolResult {
+    // Listing is a read: it mustn't create sessions, and works on closed ones
+    const session =
+      input.action === "list"
+        ? this.existingSession(input.sessionId)
+        : this.session(input.sessionId);
+
+    if (input.action === "switch") {
+      if (!input.branchId) {
+        throw new Error("branchId is required to switch branches");
+      }
+      if (!session.branches.some((b) => b.id === input.branchId)) {
+        throw new Error(
+          `Unknown branch "${input.branchId}" in session "${session.id}"`,
+        );
+      }
+      session.activeBranch = input.branchId;
+      this.persist();
+    }
+
+    const branches = session.branches.map((b) =>
+      this.summarizeBranch(session, b),
+    );
+    const lines = branches.map((b) => {
+      const origin = b.parent !== null ? ` ⑂ ${b.parent}@${b.forkStep}` : "";
+      const avg = b.avgDistance !== null ? b.avgDistance.toFixed(2) : "—";
+      return `   ${b.active ? "▶" : " "} ${b.branchId}${origin} — ${b.steps} steps, avg ${avg}, stuck ${b.stuckCount}x${b.lastConcept ? ` → "${b.lastConcept}"` : ""}`;
+    });
+    const header =
+      input.action === "switch"
+        ? `⑂ Switched to ${session.activeBranch}`
+        : `⑂ ${branches.length} branch(es) in ${session.id}`;
+
+    return {
+      content: [{ type: "text", text: `${header}\n${lines.join("\n")}` }],
+      structuredContent: {
+        sessionId: session.id,
+        activeBranch: session.activeBranch,
+        branches,
+      },
+    };
+  }
+
+  // ==========================================================================
+  // TOOL: Vocabulary (session synonym clusters)
+  // ==========================================================================
+
+  public manageVocabulary(input: VocabularyInput): ToolResult {
+    return this.recorded("dream_vocabulary", input, () =>
+      this.applyVocabularyAction(input),
+    );
+  }
+
+  private applyVocabularyAction(input: VocabularyInput): ToolResult {
+    const session =
+      input.action === "list"
+        ? this.existingSession(input.sessionId)
+        : this.session(input.sessionId);
+
+    if (input.action === "add") {
+      if (!input.clusters || input.clusters.length === 0) {
+        throw new Error("clusters is required to add vocabulary");
+      }
+      const added = input.clusters.map(normalizeCluster);
+      session.clusters.push(...added);
+      this.sessionVocabularies.delete(session);
+      this.persist();
+
+      const lines = added.map((c) => `   + ${c.join(" / ")}`);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `📖 Added ${added.length} cluster(s) to ${session.id}\n${lines.join("\n")}`,
+          },
+        ],
+        structuredContent: {
+          sessionId: session.id,
+          added,
+          sessionClusters: session.clusters,
+        },
+      };
+    }
+
+    const base = this.vocabulary.clusters.length;
+    let output = `📖 ${base} configured cluster(s), ${session.clusters.length} added in ${session.id}`;
+    if (session.clusters.length > 0) {
+      output +=
+        "\n" + session.clusters.map((c) => `   • ${c.join(" / ")}`).join("\n");
+    }
+    return {
+      content: [{ type: "text", text: output }],
+      structuredContent: {
+        sessionId: session.id,
+        configuredClusters: this.vocabulary.clusters,
+        sessionClusters: session.clusters,
+      },
+    };
+  }
+
+  // ==========================================================================
+  // TOOL: Synthesize (record the insight, close the session)
+  // ==========================================================================
+
+  public synthesize(input: SynthesizeInput): ToolResult {
+    return this.recorded("synthesize", input, () => this.applySynthesis(input));
+  }
+
+  private applySynthesis(input: SynthesizeInput): ToolResult {
+    if (input.action === "list") return this.listInsights(input.topic);
+
+    const insight = input.insight?.trim();
+    if (!insight) throw new Error("insight is required to synthesize");
+    if (!input.drawsOn || input.drawsOn.length === 0) {
+      throw new Error("drawsOn must name at least one step");
+    }
+
+    const session = this.session(input.sessionId);
+    const vocabulary = this.vocabularyFor(session);
+    const measure = (a: string, b: string) => this.distance(a, b, vocabulary);
+    const branch = this.activeBranchOf(session);
+    if (branch.steps.length === 0) {
+      throw new Error(`Session "${session.id}" has no steps to synthesize`);
+    }
+
+    // Every reference must be on the path; resolve all before changing state
+    const steps = [
+      ...new Set(
+        input.drawsOn.map((ref) =>
+          this.resolveStep(branch, ref, measure, "drawsOn"),
+        ),
+      ),
+    ].sort((a, b) => a - b);
+    const startConcept = branch.steps[0].concept;
+
+    const record: Insight = {
+      sessionId: session.id,
+      branch: branch.id,
+      topic: input.topic?.trim() || startConcept,
+      insight,
+      drawsOn: steps.map((step) => ({
+        step,
+        concept: branch.steps[step - 1].concept,
+      })),
+      startConcept,
+      travelled: measure(startConcept, insight),
+      steps: branch.steps.length,
+      at: new Date(this.clock()).toISOString(),
+    };
+    session.insight = record;
+    session.status = "closed";
+    this.persist();
+
+    const text = (v: string) => this.logger.text(v);
+    this.logger.log("info", "synthesize", {
+      sessionId: session.id,
+      branch: branch.id,
+      topic: text(record.topic),
+      insight: text(insight),
+      drawsOn: steps,
+      travelled: record.travelled,
+    });
+
+    const sources = record.drawsOn
+      .map((d) => `${d.step} "${d.concept}"`)
+      .join(", ");
+    const output = [
+      `✨ Insight recorded — session ${session.id} closed`,
+      `   Topic: ${record.topic}`,
+      `   Draws on: step ${sources}`,
+      `   Travelled: ${record.travelled.toFixed(2)} [${distanceBar(record.travelled)}] from "${startConcept}"`,
+      `   "${insight}"`,
+    ].join("\n");
+
+    return {
+      content: [{ type: "text", text: output }],
+      structuredContent: { ...record },
+    };
+  }
+
+  // Past insights, newest first. A topic filter matches like returns do.
+  private listInsights(topic?: string): ToolResult {
+    const filter = topic?.trim();
+    const insights = [...this.sessions.values()]
+      .map((s) => s.insight)
+      .filter((i): i is Insight => i !== null)
+      .filter(
+        (i) =>
+          !filter ||
+          i.topic.toLowerCase() === filter.toLowerCase() ||
+          this.distance(i.topic, filter, this.vocabulary) <= MATCH_THRESHOLD,
+      )
+      .sort((a, b) => b.at.localeCompare(a.at));
+
+    const lines = insights.map(
+      (i) =>
+        `   • ${i.topic} (${i.sessionId}, travelled ${i.travelled.toFixed(2)}): "${i.insight}"`,
+    );
+    const scope = filter ? ` on "${filter}"` : "";
+    const output =
+      insights.length > 0
+        ? `📜 ${insights.length} insight(s)${scope}\n${lines.join("\n")}`
+        : `📜 No insights${scope} yet`;
+    return {
+      content: [{ type: "text", text: output }],
+      structuredContent: { insights },
+    };
+  }
+
+  // ==========================================================================
+  // TOOL: Export (markdown / json / mermaid / dot)
+  // ==========================================================================
+
+  // The active branch is the report's path; the graph covers every branch
+  private buildExport(session: DreamSession): DreamExport {
+    const branch = this.activeBranchOf(session);
+    return {
+      sessionId: session.id,
+      status: session.status,
+      exportedAt: new Date(this.clock()).toISOString(),
+      branch: this.summarizeBranch(session, branch),
+      branches: session.branches.map((b) => this.summarizeBranch(session, b)),
+      steps: branch.steps.map((s) => ({ ...s })),
+      graph: structuredClone(session.graph),
+      avgDistance: avgDistance(branch.steps),
+      stuckCount: stuckCount(branch.steps),
+      insight: session.insight,
+    };
+  }
+
+  public exportDream(input: ExportInput): ToolResult {
+    const session = this.existingSession(input.sessionId);
+
+    const format = input.format ?? "markdown";
+    const data = this.buildExport(session);
+    const document = render(data, format);
+    return {
+      content: [{ type: "text", text: document }],
+      structuredContent: {
+        sessionId: session.id,
+        format,
+        document,
+        steps: data.steps.length,
+        ...graphStats(data.graph),
+      },
+    };
+  }
+
+  public dreamStats(input: StatsInput): ToolResult {
+    const scope = input.scope ?? "session";
+    if (scope === "all") {
+      const all = [...this.sessions.values()].map((session) => {
+        const steps = takenSteps(session);
+        return {
+          stats: sessionStats(session.id, session.branches.length, steps),
+          steps,
+        };
+      });
+      const aggregate = aggregateStats(all);
+      const lines = [
+        `📊 All sessions — ${aggregate.sessions} sessions, ${aggregate.steps} steps, ${aggregate.measured} measured`,
+        ...statsLines(aggregate),
+      ];
+      if (aggregate.stuckSessions > 0) {
+        lines.push(
+          `   Stuck: ${aggregate.stuckSessions} of ${aggregate.sessions} sessions, first after ${aggregate.stepsToFirstStuck!.toFixed(1)} steps on average (${formatDuration(aggregate.secondsToFirstStuck!)})`,
+        );
+      } else if (aggregate.sessions > 0) {
+        lines.push("   No session got stuck");
+      }
+      for (const { stats } of all) {
+        lines.push(this.statsSummary(stats));
+      }
+      return {
+        content: [{ type: "text", text: lines.join("\n") }],
+        structuredContent: {
+          scope,
+          ...aggregate,
+          perSession: all.map((s) => s.stats),
+        },
+      };
+    }
+
+    const session = this.existingSession(input.sessionId);
+    const stats = sessionStats(
+      session.id,
+      session.branches.length,
+      takenSteps(session),
+    );
+    const lines = [
+      `📊 Session "${session.id}" — ${stats.steps} steps, ${stats.measured} measured across ${stats.branches} branch${stats.branches === 1 ? "" : "es"}`,
+      ...statsLines(stats),
+    ];
+    if (stats.steps > 0) lines.push(firstStuckLine(stats));
+    return {
+      content: [{ type: "text", text: lines.join("\n") }],
+      structuredContent: { scope, ...stats },
+    };
+  }
+
+  private statsSummary(stats: SessionStats): string {
+    const avg = stats.distance ? stats.distance.mean.toFixed(2) : "—";
+    const stuck = stats.firstStuck
+      ? `first stuck at step ${stats.firstStuck.step}`
+      : "never stuck";
+    return `   • ${stats.sessionId} — ${stats.steps} steps, avg ${avg}, ${stuck}`;
+  }
 }
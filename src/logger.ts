@@ -0,0 +1,98 @@
+import { createHmac, randomBytes } from "node:crypto";
+import { appendFileSync, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export interface Logger {
+  log(level: LogLevel, event: string, data?: Record<string, unknown>): void;
+  // Concept text as it may appear in a log line
+  text(value: string): string;
+}
+
+export interface LoggerOptions {
+  level?: string; // minimum level written, default info
+  file?: string; // append here instead of stderr
+  redact?: boolean; // replace concept text with a keyed hash
+  redactKey?: string; // HMAC key; random per process when not given
+  clock?: () => number; // epoch ms for `ts`, default Date.now
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const isLevel = (level: string): level is LogLevel =>
+  Object.hasOwn(LEVELS, level);
+
+// ============================================================================
+// LOGGERS
+// ============================================================================
+
+export const SILENT_LOGGER: Logger = {
+  log: () => {},
+  text: (value) => value,
+};
+
+/**
+ * One JSON object per line: { ts, level, event, ...data }. Writes are
+ * synchronous so lines from concurrent calls never interleave, and a failing
+ * write is reported without breaking the tool call that logged it.
+ */
+export class JsonLinesLogger implements Logger {
+  private minLevel: number;
+  private file: string | null;
+  private redactKey: string | Buffer | null;
+  private clock: () => number;
+
+  constructor(options: LoggerOptions = {}) {
+    const level = (options.level ?? "info").toLowerCase();
+    if (!isLevel(level)) {
+      throw new Error(
+        `Unknown log level "${options.level}" (debug, info, warn or error)`,
+      );
+    }
+    this.minLevel = LEVELS[level];
+    this.file = options.file ?? null;
+    // Keyed, so common words can't be recovered by hashing guesses. A fixed
+    // key keeps hashes comparable across restarts.
+    this.redactKey = options.redact
+      ? (options.redactKey ?? randomBytes(32))
+      : null;
+    this.clock = options.clock ?? Date.now;
+    if (this.file) mkdirSync(dirname(this.file), { recursive: true });
+  }
+
+  log(level: LogLevel, event: string, data: Record<string, unknown> = {}) {
+    if (LEVELS[level] < this.minLevel) return;
+    const line =
+      JSON.stringify({
+        ts: new Date(this.clock()).toISOString(),
+        level,
+        event,
+        ...data,
+      }) + "\n";
+    try {
+      if (this.file) appendFileSync(this.file, line);
+      else process.stderr.write(line);
+    } catch (e) {
+      console.error("Failed to write dream log:", e);
+    }
+  }
+
+  // Redacted text keeps equal concepts correlatable across lines
+  text(value: string): string {
+    if (this.redactKey === null) return value;
+    const hash = createHmac("sha256", this.redactKey)
+      .update(value)
+      .digest("hex");
+    return `hmac:${hash.slice(0, 12)}`;
+  }
+}
@@ -0,0 +1,143 @@
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+
+// ============================================================================
+// CATALOG
+// ============================================================================
+
+// Every sentence dream and dreamcheck write, in English. {name} is filled in
+// from the values of the moment; a catalog that leaves one out just doesn't
+// show it.
+const ENGLISH = {
+  // dream
+  "dream.step": "Step {step}: {concept}",
+  "dream.fork": 'Branch {branch} from {parent} step {step} ("{concept}")',
+  "dream.return": 'Returning to: "{concept}"',
+  "dream.revisit": "Revisit: also step {steps}",
+  "dream.distance": "Distance: {distance}",
+  "dream.override": "Semantic override: surface={surface}, you saw={semantic}",
+  "dream.tension": "Collision tension: {tension} {label}",
+  "dream.friction":
+    "Collision friction: {friction} {label} across {pairs} pairs",
+  "dream.mostTense": 'Most tense: "{a}" × "{b}" {tension}',
+  "dream.leastTense": 'Least tense: "{a}" × "{b}" {tension}',
+  "dream.swapOut":
+    'Swap out "{member}": too close to "{closestTo}" ({tension}) to add friction',
+  "dream.tooSimilar": "Concepts too similar, try a more distant collision",
+  "dream.bias": "Bias {bias} (you {tendency}) → next chaosLevel {next}",
+  "dream.stuck": "STUCK — {reason}",
+  "dream.jump": "Jump to one of these (measured far from your last 3):",
+  "dream.suggestion": '"{concept}" ({domain}) {distance}',
+
+  "calibration.conservative": "conservative",
+  "calibration.on-target": "on target",
+  "calibration.wild": "wild",
+  "tension.high": "HIGH",
+  "tension.medium": "MEDIUM",
+  "tension.low": "LOW",
+  "return.transformed": "transformed",
+  "return.shifted": "shifted",
+  "return.similar": "similar",
+  "bias.undershoot": "undershoot",
+  "bias.overshoot": "overshoot",
+
+  // Canned nudges for when no measured suggestion is far enough
+  "prompt.domain":
+    "Try a completely different domain (biology, music, mythology, cooking)",
+  "prompt.child": "What metaphor would a child use?",
+  "prompt.opposite": "What's the emotional opposite?",
+  "prompt.sensation": "If this were a physical sensation, what would it be?",
+  "prompt.future": "What would this look like in 1000 years?",
+  "prompt.nature": "What animal or weather pattern embodies this?",
+  "prompt.absurd": "What's the absurd connection you're suppressing?",
+
+  // Stuck reasons and calibration patterns
+  "stuck.similarity":
+    "Steps {steps} sit {average} apart on average — you're circling",
+  "stuck.oscillation":
+    'Oscillating between "{a}" (steps {aSteps}) and "{b}" (steps {bSteps})',
+  "stuck.unannounced-return":
+    'Step {step} is back at step {earlier} ("{concept}") without isReturn',
+  "stuck.shrinking": "Leaps shrinking over steps {steps}: {distances}",
+  "pattern.conservative-streak":
+    "Conservative {count}x in a row — you're playing it safe",
+  "pattern.wild-streak":
+    "Wild {count}x in a row — your chaosLevel undersells your leaps",
+  "pattern.oscillating":
+    "Swinging between conservative and wild — adjust in smaller steps",
+  "pattern.ignoring-feedback": "Conservative again without raising chaosLevel",
+
+  // dreamcheck
+  "check.yes": "YES ({confidence}%)",
+  "check.notYet": "NOT YET ({confidence}%)",
+  "check.adjustment": "×{adjustment} from outcomes",
+  "check.age": "{age} ago",
+  "check.groupedTopic": 'Grouped topic "{label}" ← {variants}',
+  "check.groupedError": 'Grouped error "{label}" ← {variants}',
+  "check.start": 'Start with "{topic}", chaos {chaos}',
+
+  "signal.topicRepeated": "Topic repeated {count}x",
+  "signal.topicRevisited": "Topic revisited",
+  "signal.errorsRecurring": "Errors recurring: {errors}",
+  "signal.recurringError": '"{error}" ({count}x)',
+  "signal.errorsSeen": "{count} error(s) seen",
+  "signal.attemptsMany": "{count} attempts — significant effort",
+  "signal.attemptsSome": "{count} attempts",
+  "signal.attemptsOne": "1 attempt",
+  "signal.sentimentStuck": "User stuck",
+  "signal.sentimentFrustrated": "User frustrated",
+  "signal.sentimentExploring": "Exploratory mode",
+  "signal.sentimentCurious": "Curious tone",
+  "signal.dreamActive": "Dream session active",
+  "signal.manyChecks": "{count} checks — consider drifting",
+};
+
+export type MessageKey = keyof typeof ENGLISH;
+export type MessageCatalog = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
+
+export const MESSAGES: MessageCatalog = ENGLISH;
+
+export function formatMessage(
+  catalog: MessageCatalog,
+  key: MessageKey,
+  params: MessageParams = {},
+): string {
+  return catalog[key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.hasOwn(params, name) ? String(params[name]) : placeholder,
+  );
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Load a message catalog (JSON or YAML): a flat map from message key to
+ * template. Keys it doesn't list keep their English wording, so a catalog
+ * can translate as much or as little as it likes.
+ *   check.yes: "JA ({confidence} %)"
+ *   dream.stuck: "FESTGEFAHREN — {reason}"
+ */
+export function loadMessages(file: string): MessageCatalog {
+  const text = readFileSync(file, "utf8");
+  const ext = extname(file).toLowerCase();
+  const raw =
+    ext === ".yaml" || ext === ".yml" ? parseYaml(text) : JSON.parse(text);
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Invalid message catalog ${file}: expected an object`);
+  }
+  const catalog = { ...MESSAGES };
+  for (const [key, template] of Object.entries(raw)) {
+    if (!Object.hasOwn(MESSAGES, key)) {
+      throw new Error(`Unknown message "${key}" in ${file}`);
+    }
+    if (typeof template !== "string") {
+      throw new Error(`Invalid message "${key}" in ${file}: expected text`);
+    }
+    catalog[key as MessageKey] = template;
+  }
+  return catalog;
+}
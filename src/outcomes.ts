@@ -0,0 +1,107 @@
+import type { SignalName } from "./scoring.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type Outcome = "resolved" | "partial" | "no-help";
+
+export const OUTCOMES: Outcome[] = ["resolved", "partial", "no-help"];
+
+// What one dreamcheck said, kept so a later outcome can credit its signals
+export interface Verdict {
+  check: number; // 1-based, in the session's check order
+  topic: string; // key of the topic group it was about
+  shouldDream: boolean;
+  confidence: number;
+  signals: SignalName[];
+  outcome: Outcome | null; // reported with dream_outcome; the last word wins
+  reportedAt: number | null; // epoch ms
+}
+
+export interface SignalOutcomes {
+  signal: SignalName;
+  resolved: number;
+  partial: number;
+  noHelp: number;
+  reports: number;
+  helpfulness: number; // 0-1, pulled toward 0.5 while reports are few
+  adjustment: number; // weight multiplier, 0.5-1.5
+}
+
+// ============================================================================
+// STATISTICS
+// ============================================================================
+
+// How much each outcome says the dream helped
+const CREDIT: Record<Outcome, number> = {
+  resolved: 1,
+  partial: 0.5,
+  "no-help": 0,
+};
+
+// Neutral reports every signal starts with, so one lucky outcome can't swing
+// its weight by half
+const PRIOR_REPORTS = 4;
+
+/**
+ * Tally reported outcomes per signal: every signal that fired in a check
+ * shares that check's outcome. Signals without reports are left out.
+ */
+export function signalOutcomes(verdicts: Verdict[]): SignalOutcomes[] {
+  const tallies = new Map<SignalName, Record<Outcome, number>>();
+  for (const v of verdicts) {
+    if (v.outcome === null) continue;
+    for (const signal of v.signals) {
+      const tally = tallies.get(signal) ?? {
+        resolved: 0,
+        partial: 0,
+        "no-help": 0,
+      };
+      tally[v.outcome]++;
+      tallies.set(signal, tally);
+    }
+  }
+
+  return [...tallies].map(([signal, tally]) => {
+    const reports = tally.resolved + tally.partial + tally["no-help"];
+    const credit = OUTCOMES.reduce((sum, o) => sum + tally[o] * CREDIT[o], 0);
+    const helpfulness =
+      (credit + PRIOR_REPORTS * 0.5) / (reports + PRIOR_REPORTS);
+    return {
+      signal,
+      resolved: tally.resolved,
+      partial: tally.partial,
+      noHelp: tally["no-help"],
+      reports,
+      helpfulness,
+      adjustment: 0.5 + helpfulness,
+    };
+  });
+}
+
+// Multipliers for check(): signals without reports keep their weight
+export function weightAdjustments(
+  outcomes: SignalOutcomes[],
+): Partial<Record<SignalName, number>> {
+  return Object.fromEntries(outcomes.map((o) => [o.signal, o.adjustment]));
+}
+
+// ============================================================================
+// TEXT
+// ============================================================================
+
+export const OUTCOME_EMOJI: Record<Outcome, string> = {
+  resolved: "✅",
+  partial: "🌗",
+  "no-help": "❌",
+};
+
+export function outcomeLines(outcomes: SignalOutcomes[]): string[] {
+  return [...outcomes]
+    .sort((a, b) => b.reports - a.reports || a.signal.localeCompare(b.signal))
+    .map(
+      (o) =>
+        `   • ${o.signal}: ${o.resolved} resolved, ${o.partial} partial, ${o.noHelp} no help → ×${o.adjustment.toFixed(2)}`,
+    );
+}
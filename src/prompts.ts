@@ -0,0 +1,136 @@
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// Prompt arguments arrive as strings, whatever they describe
+export interface WorkflowArgs {
+  topic: string;
+  chaos?: string; // target chaosLevel, 0-1
+  sessionId?: string;
+}
+
+export interface Workflow {
+  name: string;
+  title: string;
+  description: string;
+  topic: string; // what the topic argument should hold
+  defaultChaos: number;
+  goal: (topic: string) => string;
+  steps: (topic: string, chaos: number) => string[];
+  synthesis: string;
+}
+
+// ============================================================================
+// WORKFLOWS
+// ============================================================================
+
+// Leaps above or below the target, kept inside the tool's range
+const shift = (chaos: number, by: number): string =>
+  String(Math.round(Math.min(1, Math.max(0.1, chaos + by)) * 20) / 20);
+
+export const WORKFLOWS: Workflow[] = [
+  {
+    name: "unstick-bug",
+    title: "Unstick a Bug",
+    description:
+      "Drift away from a bug that resists linear debugging, collide it with what turns up, and come back with a new hypothesis to test",
+    topic: "The bug: symptom, what you expected, what you've tried",
+    defaultChaos: 0.7,
+    goal: (topic) =>
+      `Linear debugging has stalled on this bug:\n\n${topic}\n\nUse associative dreaming to find a hypothesis nobody has tested yet.`,
+    steps: (topic, chaos) => [
+      `Call \`dreamcheck\` with topic "${topic}", the attempts made so far and any error messages, so the session remembers what already failed.`,
+      `Call \`dream\` with the bug's core symptom as the concept and chaosLevel ${shift(chaos, 0)}.`,
+      `Drift 3 times at chaosLevel ${shift(chaos, 0)} into domains that have nothing to do with software: plumbing, biology, traffic, kitchens. Each concept is one vivid noun phrase, not an explanation.`,
+      `Call \`dream\` with isCollision and collidesWith set to the drift concept that felt strangest, colliding it with the symptom. Look for a mechanism the two share.`,
+      `Call \`dream\` with isReturn and returnsTo set to the symptom, and a concept describing the bug as the collision made you see it.`,
+    ],
+    synthesis:
+      "Call `synthesize` with a concrete hypothesis the human can test in the code next, citing the steps it draws on.",
+  },
+  {
+    name: "brainstorm-names",
+    title: "Brainstorm Names",
+    description:
+      "Wander far from a product or project and collide what turns up into name candidates",
+    topic: "What needs a name, and what it does",
+    defaultChaos: 0.8,
+    goal: (topic) =>
+      `Find names for:\n\n${topic}\n\nUse associative dreaming to reach names that don't describe the thing literally.`,
+    steps: (topic, chaos) => [
+      `Call \`dream\` with the thing's purpose in three or four words as the concept and chaosLevel ${shift(chaos, 0)}.`,
+      `Drift 4 or 5 times at chaosLevel ${shift(chaos, 0)}. Favour concrete images with texture: objects, places, creatures, crafts.`,
+      `If two drifts come back 🐢 conservative, fork with branchFrom 1 and drift twice more at chaosLevel ${shift(chaos, 0.15)}.`,
+      `Call \`dream\` twice with isCollision, colliding the two most evocative concepts with each other and then with the thing's purpose. Collisions with HIGH tension are where names hide.`,
+    ],
+    synthesis:
+      "Call `synthesize` with a shortlist of 5-8 names, each with one line on the image it carries, citing the steps behind them.",
+  },
+  {
+    name: "reframe-design",
+    title: "Reframe a Design Problem",
+    description:
+      "Explore a design problem on two branches, one near and one far, and bring a different framing of the problem back",
+    topic: "The design problem and the constraint that makes it hard",
+    defaultChaos: 0.6,
+    goal: (topic) =>
+      `This design problem keeps getting the same answers:\n\n${topic}\n\nUse associative dreaming to change the question, not to answer it.`,
+    steps: (topic, chaos) => [
+      `Call \`dream\` with the problem as the concept and chaosLevel ${shift(chaos, 0)}.`,
+      `Drift 3 times at chaosLevel ${shift(chaos, 0)}, asking each time "what else is shaped like this?"`,
+      `Call \`dream\` with branchFrom 1 and chaosLevel ${shift(chaos, 0.25)} to start a second, wilder branch. Drift twice more on it.`,
+      `Call \`dream\` with isCollision, colliding the most surprising concept from the wild branch with the hardest constraint of the problem.`,
+      `Call \`dream\` with isReturn and returnsTo set to the problem, restating it in the terms the collision suggested.`,
+    ],
+    synthesis:
+      "Call `synthesize` with the reframed problem and the first design move it suggests, citing the steps it draws on.",
+  },
+];
+
+// Applies to every workflow: the MCP's feedback overrides the plan
+const FEEDBACK_RULES = [
+  "🐢 twice in a row: raise chaosLevel to the nextChaosLevel the MCP recommends.",
+  "⚠️ STUCK: stop drifting in that direction and take one of the concepts the MCP suggests.",
+  "💥 LOW tension: collide with something further away before moving on.",
+];
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+export function parseChaos(
+  value: string | undefined,
+  fallback: number,
+): number {
+  if (value === undefined || value.trim() === "") return fallback;
+  const chaos = Number(value);
+  if (!Number.isFinite(chaos) || chaos < 0 || chaos > 1) {
+    throw new Error(`chaos must be a number from 0 to 1, got "${value}"`);
+  }
+  return chaos;
+}
+
+/**
+ * Expand a workflow into the instructions the model follows: the goal, one
+ * numbered line per tool call with chaos levels derived from the target,
+ * the feedback rules and the closing synthesis.
+ */
+export function workflowPrompt(workflow: Workflow, args: WorkflowArgs): string {
+  const topic = args.topic.trim();
+  if (!topic) throw new Error("topic is required");
+  const chaos = parseChaos(args.chaos, workflow.defaultChaos);
+
+  const steps = [...workflow.steps(topic, chaos), workflow.synthesis];
+  const lines = [workflow.goal(topic), ""];
+  lines.push(
+    args.sessionId
+      ? `Pass sessionId "${args.sessionId}" on every call.`
+      : "Start with a fresh session: call `dream_session` with action create and pass the id it returns as sessionId on every call.",
+    "",
+    ...steps.map((step, i) => `${i + 1}. ${step}`),
+    "",
+    "Whenever the MCP's feedback says so, change course:",
+    ...FEEDBACK_RULES.map((rule) => `• ${rule}`),
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,50 @@
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// Uniform in [0, 1), like Math.random
+export type Random = () => number;
+
+// ============================================================================
+// GENERATORS
+// ============================================================================
+
+// FNV-1a over the seed's UTF-16 code units: any string makes a 32-bit state
+function hashSeed(seed: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * A generator that yields the same sequence for the same seed (mulberry32).
+ * Not for anything secret: it only has to make runs repeatable.
+ */
+export function seededRandom(seed: string): Random {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function pick<T>(items: readonly T[], random: Random): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+// A UUID-shaped id (version 4 layout) drawn from the generator
+export function randomId(random: Random): string {
+  const hex = Array.from({ length: 32 }, () =>
+    Math.floor(random() * 16).toString(16),
+  );
+  hex[12] = "4";
+  hex[16] = "89ab"[Math.floor(random() * 4)];
+  const s = hex.join("");
+  return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20)}`;
+}
@@ -0,0 +1,229 @@
+import { appendFileSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { parseRenderStyle, type RenderStyle } from "./render.js";
+import type { ScoringProfile } from "./scoring.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// Bump when a line's shape changes. 2: headers carry scoring and render
+export const RECORDING_VERSION = 2;
+
+// The tools whose calls change state. Read-only ones (export, stats) can be
+// rerun any time and are not recorded.
+export const RECORDED_TOOLS = [
+  "dream",
+  "dreamcheck",
+  "dream_outcome",
+  "dream_session",
+  "dream_branch",
+  "dream_vocabulary",
+  "synthesize",
+] as const;
+
+export type RecordedTool = (typeof RECORDED_TOOLS)[number];
+
+// First line of every server run: what a replay needs to start the same way
+export interface RecordingHeader {
+  recording: number; // RECORDING_VERSION
+  seed: string;
+  startedAt: string;
+  // Settings that may come from flags, which a replay can't see. Version 1
+  // headers have neither; their runs replay under the environment's.
+  scoring?: ScoringProfile;
+  render?: RenderStyle;
+}
+
+export type RecordedOutput =
+  | { text: string; structuredContent: Record<string, unknown> }
+  | { error: string };
+
+export interface RecordedCall {
+  tool: RecordedTool;
+  at: string; // when the call was made; the replay's clock reads this
+  input: Record<string, unknown>;
+  output: RecordedOutput;
+}
+
+// One server run: its header and the calls made until it stopped
+export interface RecordingSegment {
+  header: RecordingHeader;
+  calls: RecordedCall[];
+}
+
+export interface Recorder {
+  start(header: RecordingHeader): void;
+  record(call: RecordedCall): void;
+}
+
+export interface OutputDifference {
+  path: string; // "structuredContent.distance", "text line 3" or "error"
+  recorded: unknown;
+  replayed: unknown;
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Appends one JSON object per line: a header when the server starts, then a
+ * line per call. Like the logger, a failing write is reported without
+ * breaking the call that was being recorded.
+ */
+export class JsonLinesRecorder implements Recorder {
+  constructor(private file: string) {
+    mkdirSync(dirname(file), { recursive: true });
+  }
+
+  start(header: RecordingHeader): void {
+    this.write(header);
+  }
+
+  record(call: RecordedCall): void {
+    this.write(call);
+  }
+
+  private write(line: object): void {
+    try {
+      appendFileSync(this.file, JSON.stringify(line) + "\n");
+    } catch (e) {
+      console.error("Failed to write dream recording:", e);
+    }
+  }
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+/**
+ * Split a recording into its server runs. Every header starts a new segment;
+ * calls before the first header, or lines of an unknown shape, are errors.
+ */
+export function parseRecording(
+  text: string,
+  source = "recording",
+): RecordingSegment[] {
+  const segments: RecordingSegment[] = [];
+  text.split("\n").forEach((raw, i) => {
+    if (!raw.trim()) return;
+    const where = `${source}:${i + 1}`;
+    let line: unknown;
+    try {
+      line = JSON.parse(raw);
+    } catch {
+      throw new Error(`${where}: not valid JSON`);
+    }
+    if (!isObject(line)) throw new Error(`${where}: expected an object`);
+
+    if ("recording" in line) {
+      if (
+        typeof line.recording !== "number" ||
+        line.recording < 1 ||
+        line.recording > RECORDING_VERSION
+      ) {
+        throw new Error(
+          `${where}: recording version ${line.recording} is not supported (expected 1 to ${RECORDING_VERSION})`,
+        );
+      }
+      if (typeof line.seed !== "string" || typeof line.startedAt !== "string") {
+        throw new Error(`${where}: a header needs a seed and startedAt`);
+      }
+      if (
+        line.recording >= 2 &&
+        (!isObject(line.scoring) || typeof line.render !== "string")
+      ) {
+        throw new Error(`${where}: a header needs scoring and render`);
+      }
+      if (typeof line.render === "string") parseRenderStyle(line.render);
+      segments.push({ header: line as unknown as RecordingHeader, calls: [] });
+      return;
+    }
+
+    if (!RECORDED_TOOLS.includes(line.tool as RecordedTool)) {
+      throw new Error(`${where}: unknown tool "${line.tool}"`);
+    }
+    if (
+      typeof line.at !== "string" ||
+      Number.isNaN(Date.parse(line.at)) ||
+      !isObject(line.input) ||
+      !isObject(line.output)
+    ) {
+      throw new Error(`${where}: a call needs at, input and output`);
+    }
+    const segment = segments[segments.length - 1];
+    if (!segment) throw new Error(`${where}: call before the first header`);
+    segment.calls.push(line as unknown as RecordedCall);
+  });
+  return segments;
+}
+
+export function loadRecording(file: string): RecordingSegment[] {
+  return parseRecording(readFileSync(file, "utf8"), file);
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+function diffValues(
+  path: string,
+  recorded: unknown,
+  replayed: unknown,
+  out: OutputDifference[],
+): void {
+  if (Array.isArray(recorded) && Array.isArray(replayed)) {
+    const n = Math.max(recorded.length, replayed.length);
+    for (let i = 0; i < n; i++) {
+      diffValues(`${path}[${i}]`, recorded[i], replayed[i], out);
+    }
+  } else if (isObject(recorded) && isObject(replayed)) {
+    const keys = new Set([...Object.keys(recorded), ...Object.keys(replayed)]);
+    for (const key of keys) {
+      diffValues(`${path}.${key}`, recorded[key], replayed[key], out);
+    }
+  } else if (recorded !== replayed) {
+    out.push({ path, recorded, replayed });
+  }
+}
+
+/**
+ * Every place a replayed output departs from the recorded one: structured
+ * fields by path, text line by line, and errors by message.
+ */
+export function diffOutputs(
+  recorded: RecordedOutput,
+  replayed: RecordedOutput,
+): OutputDifference[] {
+  const out: OutputDifference[] = [];
+  if ("error" in recorded || "error" in replayed) {
+    const a = "error" in recorded ? recorded.error : null;
+    const b = "error" in replayed ? replayed.error : null;
+    if (a !== b) out.push({ path: "error", recorded: a, replayed: b });
+    return out;
+  }
+
+  diffValues(
+    "structuredContent",
+    recorded.structuredContent,
+    replayed.structuredContent,
+    out,
+  );
+  const a = recorded.text.split("\n");
+  const b = replayed.text.split("\n");
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      out.push({
+        path: `text line ${i + 1}`,
+        recorded: a[i] ?? null,
+        replayed: b[i] ?? null,
+      });
+    }
+  }
+  return out;
+}
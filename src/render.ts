@@ -0,0 +1,428 @@
+import { LOW_TENSION, matrixLines } from "./collision.js";
+import {
+  CALIBRATION_EMOJI,
+  distanceBar,
+  formatDuration,
+  isSemanticOverride,
+  returnLabel,
+} from "./format.js";
+import type { Calibration } from "./lib.js";
+import {
+  formatMessage,
+  type MessageCatalog,
+  type MessageKey,
+  type MessageParams,
+} from "./messages.js";
+import type { CheckResult, DreamResult } from "./schemas.js";
+import type { SignalGroup } from "./signals.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// rich: emoji and bars; plain: the same lines in ASCII; compact: one line;
+// json: the structured result as text
+export const RENDER_STYLES = ["rich", "plain", "compact", "json"] as const;
+
+export type RenderStyle = (typeof RENDER_STYLES)[number];
+
+// What the text shows beyond the structured result
+export interface DreamView {
+  result: DreamResult;
+  isReturn: boolean;
+  isCollision: boolean;
+  revisits: string[]; // earlier visits of the step's node: "2", "b2:3"
+  prompt: string | null; // canned nudge when stuck with nothing to suggest
+}
+
+export interface CheckView {
+  result: CheckResult;
+  topic: string; // as sent
+  grouped: Array<{ kind: "topic" | "error"; group: SignalGroup }>;
+}
+
+export function parseRenderStyle(value: string): RenderStyle {
+  const style = value.toLowerCase().trim();
+  if (!RENDER_STYLES.includes(style as RenderStyle)) {
+    throw new Error(
+      `Unknown render style "${value}" (${RENDER_STYLES.join(", ")})`,
+    );
+  }
+  return style as RenderStyle;
+}
+
+// ============================================================================
+// GLYPHS
+// ============================================================================
+
+// Decoration around the catalog's words. An empty glyph leaves the line
+// to its words alone.
+interface Glyphs {
+  drift: string;
+  return: string;
+  collision: string;
+  calibration: (c: Calibration, word: string) => string;
+  bar: (distance: number) => string;
+  tension: Record<"high" | "medium" | "low", string>;
+  fork: string;
+  returning: string;
+  revisit: string;
+  override: string;
+  bias: string;
+  pattern: string;
+  stuck: string;
+  arrow: string;
+  bullet: string;
+  grouped: string;
+  yes: string;
+  notYet: string;
+}
+
+const RICH: Glyphs = {
+  drift: "🌀",
+  return: "🔄",
+  collision: "💥",
+  calibration: (c) => CALIBRATION_EMOJI[c],
+  bar: (d) => ` [${distanceBar(d)}]`,
+  tension: { high: " ⚡", medium: "", low: " ⚠️" },
+  fork: "⑂",
+  returning: "↩",
+  revisit: "↺",
+  override: "⚡",
+  bias: "🎯",
+  pattern: "🔁",
+  stuck: "⚠️",
+  arrow: "→",
+  bullet: "•",
+  grouped: "≈",
+  yes: "🌀",
+  notYet: "💭",
+};
+
+const PLAIN: Glyphs = {
+  drift: "~",
+  return: "<-",
+  collision: "x",
+  calibration: (_, word) => word,
+  bar: (d) => {
+    const filled = Math.round(d * 10);
+    return ` [${"#".repeat(filled)}${"-".repeat(10 - filled)}]`;
+  },
+  tension: { high: "", medium: "", low: "" },
+  fork: "",
+  returning: "",
+  revisit: "",
+  override: "",
+  bias: "",
+  pattern: "",
+  stuck: "!",
+  arrow: "->",
+  bullet: "-",
+  grouped: "~",
+  yes: "",
+  notYet: "",
+};
+
+// The catalog's own typography, for text that must stay ASCII
+const ASCII: Array<[RegExp, string]> = [
+  [/[—–]/g, "-"],
+  [/→/g, "->"],
+  [/←/g, "<-"],
+  [/×/g, "x"],
+  [/≈/g, "~"],
+  [/…/g, "..."],
+];
+
+const toAscii = (text: string): string =>
+  ASCII.reduce((t, [pattern, ascii]) => t.replace(pattern, ascii), text);
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+function writer(messages: MessageCatalog, glyphs: Glyphs) {
+  const say = (key: MessageKey, params?: MessageParams) =>
+    formatMessage(messages, key, params);
+  // An indented line, led by its glyph if the style has one
+  const line = (glyph: string, text: string, indent = "   ") =>
+    `${indent}${glyph ? `${glyph} ` : ""}${text}`;
+  const tension = (value: number) => {
+    const level = value > 0.7 ? "high" : value > 0.4 ? "medium" : "low";
+    return `${say(`tension.${level}`)}${glyphs.tension[level]}`;
+  };
+  const calibration = (c: Calibration) =>
+    glyphs.calibration(c, say(`calibration.${c}`));
+  return { say, line, tension, calibration };
+}
+
+export function renderDream(
+  view: DreamView,
+  style: RenderStyle,
+  messages: MessageCatalog,
+): string {
+  const r = view.result;
+  if (style === "json") return JSON.stringify(r);
+  const glyphs = style === "rich" ? RICH : PLAIN;
+  const { say, line, tension, calibration } = writer(messages, glyphs);
+
+  const icon = view.isCollision
+    ? glyphs.collision
+    : view.isReturn
+      ? glyphs.return
+      : glyphs.drift;
+  const head = `${icon} ${say("dream.step", { step: r.step, concept: r.concept })}`;
+  const returning =
+    r.returnMatch &&
+    say("dream.return", { concept: r.returnMatch.concept }) +
+      (r.returnDistance !== null
+        ? ` (${say(`return.${returnLabel(r.returnDistance)}`)})`
+        : "");
+  const distance =
+    r.distance !== null &&
+    say("dream.distance", { distance: r.distance.toFixed(2) });
+  const collision = r.collision;
+  const showBias =
+    r.bias !== null &&
+    (Math.abs(r.bias) >= 0.1 || r.calibrationPatterns.length > 0);
+  const bias =
+    showBias &&
+    say("dream.bias", {
+      bias: `${r.bias! >= 0 ? "+" : ""}${r.bias!.toFixed(2)}`,
+      tendency: say(r.bias! < 0 ? "bias.undershoot" : "bias.overshoot"),
+      next: r.nextChaosLevel!.toFixed(2),
+    });
+  const suggestion = (s: DreamResult["suggestions"][number]) =>
+    `${say("dream.suggestion", { concept: s.concept, domain: s.domain, distance: s.predictedDistance.toFixed(2) })} ${calibration(s.calibration)}`;
+
+  if (style === "compact") {
+    const parts = [head];
+    if (returning) parts.push(returning);
+    if (view.revisits.length > 0) {
+      parts.push(say("dream.revisit", { steps: view.revisits.join(", ") }));
+    }
+    if (distance) parts.push(`${distance} ${calibration(r.calibration!)}`);
+    if (collision && collision.members.length > 2) {
+      parts.push(
+        say("dream.friction", {
+          friction: collision.friction.toFixed(2),
+          label: tension(collision.friction),
+          pairs:
+            (collision.members.length * (collision.members.length - 1)) / 2,
+        }),
+      );
+      if (collision.swapOut) {
+        parts.push(
+          say("dream.swapOut", {
+            ...collision.swapOut,
+            tension: collision.swapOut.tension.toFixed(2),
+          }),
+        );
+      }
+    } else if (r.tension !== null) {
+      parts.push(
+        say("dream.tension", {
+          tension: r.tension.toFixed(2),
+          label: tension(r.tension),
+        }),
+      );
+    }
+    if (bias) parts.push(bias);
+    if (r.stuck) {
+      const [first, ...more] = r.stuckReasons;
+      parts.push(
+        say("dream.stuck", { reason: first.message }) +
+          (more.length > 0 ? ` (+${more.length})` : ""),
+      );
+      const next = r.suggestions[0]
+        ? suggestion(r.suggestions[0])
+        : view.prompt;
+      if (next) parts.push(`${glyphs.arrow} ${next}`);
+    }
+    return toAscii(parts.join(" | "));
+  }
+
+  const lines = [head];
+  if (r.forkedFrom) {
+    lines.push(
+      line(
+        glyphs.fork,
+        say("dream.fork", {
+          branch: r.branch,
+          parent: r.forkedFrom.branch,
+          step: r.forkedFrom.step,
+          concept: r.path[r.forkedFrom.step - 1],
+        }),
+      ),
+    );
+  }
+  if (returning) lines.push(line(glyphs.returning, returning));
+  if (view.revisits.length > 0) {
+    lines.push(
+      line(
+        glyphs.revisit,
+        say("dream.revisit", { steps: view.revisits.join(", ") }),
+      ),
+    );
+  }
+  if (distance) {
+    lines.push(
+      line(
+        "",
+        `${distance}${glyphs.bar(r.distance!)} ${calibration(r.calibration!)}`,
+      ),
+    );
+    if (isSemanticOverride(r.surfaceDistance, r.llmSemanticDistance)) {
+      lines.push(
+        line(
+          glyphs.override,
+          say("dream.override", {
+            surface: r.surfaceDistance!.toFixed(2),
+            semantic: r.llmSemanticDistance!.toFixed(2),
+          }),
+        ),
+      );
+    }
+  }
+
+  if (collision && collision.members.length > 2) {
+    const { mostTense, leastTense, swapOut } = collision;
+    const n = collision.members.length;
+    lines.push(
+      line(
+        "",
+        say("dream.friction", {
+          friction: collision.friction.toFixed(2),
+          label: tension(collision.friction),
+          pairs: (n * (n - 1)) / 2,
+        }),
+      ),
+      ...matrixLines(collision),
+      line(
+        "",
+        say("dream.mostTense", {
+          ...mostTense,
+          tension: mostTense.tension.toFixed(2),
+        }),
+      ),
+      line(
+        "",
+        say("dream.leastTense", {
+          ...leastTense,
+          tension: leastTense.tension.toFixed(2),
+        }),
+      ),
+    );
+    if (swapOut) {
+      lines.push(
+        line(
+          glyphs.arrow,
+          say("dream.swapOut", {
+            ...swapOut,
+            tension: swapOut.tension.toFixed(2),
+          }),
+        ),
+      );
+    } else if (collision.friction < LOW_TENSION) {
+      lines.push(line(glyphs.arrow, say("dream.tooSimilar")));
+    }
+  } else if (r.tension !== null) {
+    lines.push(
+      line(
+        "",
+        say("dream.tension", {
+          tension: r.tension.toFixed(2),
+          label: tension(r.tension),
+        }),
+      ),
+    );
+    if (r.tension < LOW_TENSION)
+      lines.push(line(glyphs.arrow, say("dream.tooSimilar")));
+  }
+
+  if (bias) lines.push(line(glyphs.bias, bias));
+  for (const p of r.calibrationPatterns) {
+    lines.push(line(glyphs.pattern, p.message));
+  }
+
+  if (r.stuck) {
+    for (const reason of r.stuckReasons) {
+      lines.push(
+        line(glyphs.stuck, say("dream.stuck", { reason: reason.message })),
+      );
+    }
+    if (r.suggestions.length > 0) {
+      lines.push(line(glyphs.arrow, say("dream.jump")));
+      for (const s of r.suggestions) {
+        lines.push(line(glyphs.arrow, suggestion(s), "      "));
+      }
+    } else if (view.prompt) {
+      lines.push(line(glyphs.arrow, view.prompt));
+    }
+  }
+
+  const text = lines.join("\n");
+  return style === "plain" ? toAscii(text) : text;
+}
+
+export function renderCheck(
+  view: CheckView,
+  style: RenderStyle,
+  messages: MessageCatalog,
+): string {
+  const r = view.result;
+  if (style === "json") return JSON.stringify(r);
+  const glyphs = style === "rich" ? RICH : PLAIN;
+  const { say, line } = writer(messages, glyphs);
+
+  const confidence = Math.round(r.confidence * 100);
+  const verdict = r.shouldDream
+    ? say("check.yes", { confidence })
+    : say("check.notYet", { confidence });
+  const glyph = r.shouldDream ? glyphs.yes : glyphs.notYet;
+  const start =
+    r.shouldDream &&
+    say("check.start", { topic: view.topic, chaos: r.suggestedChaos! });
+
+  if (style === "compact") {
+    const parts = [verdict];
+    if (r.contributions.length > 0) {
+      parts.push(r.contributions.map((c) => c.label).join(", "));
+    }
+    if (start) parts.push(start);
+    return toAscii(parts.join(" | "));
+  }
+
+  const lines = [glyph ? `${glyph} ${verdict}` : verdict];
+  for (const c of r.contributions) {
+    const notes = [`+${c.weight.toFixed(2)}`];
+    if (c.adjustment !== 1) {
+      notes.push(
+        say("check.adjustment", { adjustment: c.adjustment.toFixed(2) }),
+      );
+    }
+    if (c.age !== null && c.age >= 60) {
+      notes.push(say("check.age", { age: formatDuration(c.age) }));
+    }
+    lines.push(line(glyphs.bullet, `${c.label} (${notes.join(", ")})`));
+  }
+  // Show what was merged, so a wrong merge is visible
+  for (const { kind, group } of view.grouped) {
+    const variants = group.variants
+      .filter((v) => v !== group.label)
+      .map((v) => `"${v}"`)
+      .join(", ");
+    lines.push(
+      line(
+        glyphs.grouped,
+        say(kind === "topic" ? "check.groupedTopic" : "check.groupedError", {
+          label: group.label,
+          variants,
+        }),
+      ),
+    );
+  }
+  if (start) lines.push(line(glyphs.arrow, start));
+
+  const text = lines.join("\n");
+  return style === "plain" ? toAscii(text) : text;
+}
@@ -0,0 +1,147 @@
+#!/usr/bin/env node
+
+import {
+  AssociativeDreamingServer,
+  type BranchInput,
+  type CheckInput,
+  type DreamInput,
+  type OutcomeInput,
+  type SessionInput,
+  type SynthesizeInput,
+  type ToolResult,
+  type VocabularyInput,
+} from "./lib.js";
+import { SILENT_LOGGER } from "./logger.js";
+import {
+  diffOutputs,
+  loadRecording,
+  type OutputDifference,
+  type RecordedCall,
+  type RecordedOutput,
+  type RecordedTool,
+  type RecordingSegment,
+} from "./recording.js";
+
+// Feeds recordings made with --record ($DREAM_RECORD) back through the
+// current build and reports every output that changed:
+//   associative-dreaming-replay <recording>...
+// Each server run in a recording replays on a fresh, unpersisted server with
+// the run's seed, scoring profile and render style, its clock set to each
+// call's recorded time. The metric, vocabulary, language and weight
+// adaptation come from the environment, as they do for the server. Exits
+// with 1 when any output differs.
+
+type Input = Record<string, unknown>;
+
+const TOOLS: Record<
+  RecordedTool,
+  (server: AssociativeDreamingServer, input: Input) => ToolResult
+> = {
+  dream: (s, input) => s.dream(input as unknown as DreamInput),
+  dreamcheck: (s, input) => s.check(input as unknown as CheckInput),
+  dream_outcome: (s, input) =>
+    s.reportOutcome(input as unknown as OutcomeInput),
+  dream_session: (s, input) =>
+    s.manageSessions(input as unknown as SessionInput),
+  dream_branch: (s, input) => s.manageBranches(input as unknown as BranchInput),
+  dream_vocabulary: (s, input) =>
+    s.manageVocabulary(input as unknown as VocabularyInput),
+  synthesize: (s, input) => s.synthesize(input as unknown as SynthesizeInput),
+};
+
+interface CallReport {
+  index: number; // 1-based across the whole recording
+  call: RecordedCall;
+  differences: OutputDifference[];
+}
+
+function replaySegment(
+  segment: RecordingSegment,
+  firstIndex: number,
+): CallReport[] {
+  let now = Date.parse(segment.header.startedAt);
+  const server = new AssociativeDreamingServer({
+    seed: segment.header.seed,
+    scoring: segment.header.scoring,
+    render: segment.header.render,
+    clock: () => now,
+    store: null,
+    recorder: null,
+    logger: SILENT_LOGGER,
+  });
+
+  return segment.calls.map((call, i) => {
+    now = Date.parse(call.at);
+    let output: RecordedOutput;
+    try {
+      const result = TOOLS[call.tool](server, call.input);
+      output = {
+        text: result.content.map((c) => c.text).join("\n"),
+        structuredContent: result.structuredContent,
+      };
+    } catch (e) {
+      output = { error: e instanceof Error ? e.message : String(e) };
+    }
+    // Round-trip like the recording did, so undefined fields compare equal
+    const replayed = JSON.parse(JSON.stringify(output)) as RecordedOutput;
+    return {
+      index: firstIndex + i,
+      call,
+      differences: diffOutputs(call.output, replayed),
+    };
+  });
+}
+
+const show = (value: unknown): string =>
+  value === undefined ? "(missing)" : JSON.stringify(value);
+
+// =============================================================================
+// RUN
+// =============================================================================
+
+function main(): number {
+  const files = process.argv.slice(2);
+  if (files.length === 0) {
+    console.error("Usage: associative-dreaming-replay <recording>...");
+    return 2;
+  }
+
+  let changed = 0;
+  for (const file of files) {
+    const segments = loadRecording(file);
+    const reports: CallReport[] = [];
+    for (const segment of segments) {
+      reports.push(...replaySegment(segment, reports.length + 1));
+    }
+
+    console.log(
+      `▶ ${file}: ${segments.length} run(s), ${reports.length} calls`,
+    );
+    for (const { index, call, differences } of reports) {
+      if (differences.length === 0) continue;
+      const session =
+        typeof call.input.sessionId === "string"
+          ? ` in "${call.input.sessionId}"`
+          : "";
+      console.log(
+        `  ✗ #${index} ${call.tool}${session}: ${differences.length} difference(s)`,
+      );
+      for (const d of differences) {
+        console.log(
+          `      ${d.path}: ${show(d.recorded)} → ${show(d.replayed)}`,
+        );
+      }
+    }
+    const differing = reports.filter((r) => r.differences.length > 0).length;
+    console.log(`  ${reports.length - differing} of ${reports.length} match`);
+    changed += differing;
+  }
+  return changed > 0 ? 1 : 0;
+}
+
+try {
+  process.exitCode = main();
+} catch (e) {
+  console.error("Fatal:", e instanceof Error ? e.message : e);
+  process.exitCode = 2;
+}
@@ -0,0 +1,218 @@
+import { z } from "zod";
+import type { CalibrationPattern } from "./calibration.js";
+import type { Collision } from "./collision.js";
+import type { GraphStats } from "./graph.js";
+import type { SignalContribution } from "./scoring.js";
+import type { SignalGroup } from "./signals.js";
+import type { StuckReason } from "./stuck.js";
+import type { Suggestion } from "./suggest.js";
+
+// ============================================================================
+// VERSIONS
+// ============================================================================
+
+// Bump when a field is added, removed, renamed or changes type: the schemas
+// are strict, so a new field breaks them as surely as a missing one. Every
+// result carries its version as `schemaVersion`, so clients can tell which
+// contract they are reading.
+export const DREAM_RESULT_VERSION = 1;
+export const CHECK_RESULT_VERSION = 2; // 2: adaptive, contributions[].adjustment
+
+// ============================================================================
+// SHARED PARTS
+// ============================================================================
+
+// Annotated with the module's own types, so the schemas can't drift from
+// what the code produces without failing the type check
+
+const calibration = z.enum(["conservative", "on-target", "wild"]);
+
+const calibrationPattern: z.ZodType<CalibrationPattern> = z.object({
+  type: z.enum([
+    "conservative-streak",
+    "wild-streak",
+    "oscillating",
+    "ignoring-feedback",
+  ]),
+  steps: z.array(z.number().int()),
+  message: z.string(),
+});
+
+const stuckReason: z.ZodType<StuckReason> = z.object({
+  type: z.enum([
+    "similarity",
+    "oscillation",
+    "unannounced-return",
+    "shrinking",
+  ]),
+  steps: z.array(z.number().int()),
+  message: z.string(),
+});
+
+const suggestion: z.ZodType<Suggestion> = z.object({
+  concept: z.string(),
+  domain: z.string(),
+  predictedDistance: z.number(),
+  nearestDistance: z.number(),
+  calibration,
+});
+
+const collisionPair = z.object({
+  a: z.string(),
+  b: z.string(),
+  tension: z.number(),
+});
+
+const collision: z.ZodType<Collision> = z.object({
+  members: z.array(z.string()).min(2),
+  matrix: z.array(z.array(z.number())),
+  friction: z.number(),
+  mostTense: collisionPair,
+  leastTense: collisionPair,
+  swapOut: z
+    .object({ member: z.string(), closestTo: z.string(), tension: z.number() })
+    .nullable(),
+});
+
+const graphStats: z.ZodType<GraphStats> = z.object({
+  nodes: z.number().int(),
+  edges: z.number().int(),
+  branchingFactor: z.number().nullable(),
+  revisits: z.number().int(),
+  longestDriftChain: z.number().int(),
+});
+
+const contribution: z.ZodType<SignalContribution> = z.object({
+  signal: z.enum([
+    "topicRepeated",
+    "topicRevisited",
+    "errorsRecurring",
+    "errorsSeen",
+    "attemptsMany",
+    "attemptsSome",
+    "attemptsOne",
+    "sentimentStuck",
+    "sentimentFrustrated",
+    "sentimentExploring",
+    "sentimentCurious",
+    "customSignal",
+    "dreamActive",
+    "manyChecks",
+  ]),
+  label: z.string(),
+  weight: z.number(),
+  baseWeight: z.number(),
+  adjustment: z.number(),
+  age: z.number().nullable(),
+});
+
+const signalGroup: z.ZodType<SignalGroup> = z.object({
+  label: z.string(),
+  key: z.string(),
+  seen: z.array(z.number()),
+  variants: z.array(z.string()),
+});
+
+// ============================================================================
+// TOOL RESULTS
+// ============================================================================
+
+// The `dream` tool's structuredContent
+const dreamResultShape = {
+  schemaVersion: z.literal(DREAM_RESULT_VERSION),
+  sessionId: z.string(),
+  branch: z.string(),
+  step: z.number().int().min(1),
+  concept: z.string(),
+  node: z.string().describe("Concept graph node the step landed on"),
+  path: z.array(z.string()).describe("Concepts on the active branch"),
+  distance: z
+    .number()
+    .nullable()
+    .describe(
+      "Distance from the previous concept; null on first steps and returns",
+    ),
+  surfaceDistance: z.number().nullable(),
+  surfaceMetric: z.string().nullable(),
+  llmSemanticDistance: z.number().nullable(),
+  calibration: calibration.nullable(),
+  bias: z.number().nullable(),
+  nextChaosLevel: z.number().nullable(),
+  calibrationPatterns: z.array(calibrationPattern),
+  tension: z
+    .number()
+    .nullable()
+    .describe(
+      "Collision tension; the friction over every pair for several partners",
+    ),
+  collision: collision.nullable(),
+  collisionMatches: z.array(
+    z.object({
+      node: z.string(),
+      concept: z.string(),
+      external: z.boolean(),
+    }),
+  ),
+  returnTo: z.string().nullable(),
+  returnDistance: z.number().nullable(),
+  returnMatch: z
+    .object({ node: z.string(), concept: z.string(), distance: z.number() })
+    .nullable(),
+  stuck: z.boolean(),
+  stuckReasons: z.array(stuckReason),
+  suggestions: z.array(suggestion),
+  graph: graphStats,
+  forkedFrom: z
+    .object({ branch: z.string(), step: z.number().int() })
+    .nullable(),
+  avgDistance: z.number().nullable(),
+  stuckCount: z.number().int(),
+};
+
+// The `dreamcheck` tool's structuredContent
+const checkResultShape = {
+  schemaVersion: z.literal(CHECK_RESULT_VERSION),
+  sessionId: z.string(),
+  shouldDream: z.boolean(),
+  confidence: z.number().min(0).max(1),
+  signals: z.array(z.string()),
+  contributions: z.array(contribution),
+  profile: z.string(),
+  threshold: z.number(),
+  adaptive: z
+    .boolean()
+    .describe("Whether weights are scaled by reported dream outcomes"),
+  halfLifeMinutes: z.number().nullable(),
+  suggestedChaos: z.number().nullable(),
+  suggestedStart: z.string().nullable(),
+  checkCount: z.number().int(),
+  topicCount: z.number().int(),
+  totalErrors: z.number().int(),
+  topicGroup: signalGroup,
+  errorGroups: z.array(signalGroup),
+};
+
+// Strict: a field the schema doesn't declare is as much a contract break as
+// one it declares going missing
+export const DreamResultSchema = z.object(dreamResultShape).strict();
+export const CheckResultSchema = z.object(checkResultShape).strict();
+
+export type DreamResult = z.infer<typeof DreamResultSchema>;
+export type CheckResult = z.infer<typeof CheckResultSchema>;
+
+/**
+ * Check a result against its schema before it leaves the server. A mismatch
+ * is a bug in the server, not in the call, and is reported as one.
+ */
+export function validated<T>(tool: string, schema: z.ZodType<T>, result: T): T {
+  const parsed = schema.safeParse(result);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("; ");
+    throw new Error(
+      `Internal error: ${tool} result breaks its schema (${issues})`,
+    );
+  }
+  return parsed.data;
+}
@@ -0,0 +1,206 @@
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SignalName =
+  | "topicRepeated" // same topic 3+ times
+  | "topicRevisited" // same topic twice
+  | "errorsRecurring" // any error seen 2+ times
+  | "errorsSeen" // errors seen, none recurring
+  | "attemptsMany" // 4+ attempts
+  | "attemptsSome" // 2-3 attempts
+  | "attemptsOne"
+  | "sentimentStuck"
+  | "sentimentFrustrated"
+  | "sentimentExploring"
+  | "sentimentCurious"
+  | "customSignal"
+  | "dreamActive" // the session's active branch has steps
+  | "manyChecks"; // 3+ checks in the session
+
+export interface ScoringProfile {
+  name: string;
+  threshold: number; // dream when the summed weights reach this
+  weights: Record<SignalName, number>;
+  halfLifeMinutes: number | null; // null: signals never fade
+}
+
+export interface SignalContribution {
+  signal: SignalName;
+  label: string; // human-readable, as listed in `signals`
+  weight: number; // after decay
+  baseWeight: number; // from the profile
+  adjustment: number; // learned from reported outcomes; 1 unless adapting
+  age: number | null; // seconds since the evidence; null if from this call
+}
+
+// ============================================================================
+// PRESETS
+// ============================================================================
+
+// Long enough to span one working stretch on a problem
+const DEFAULT_HALF_LIFE = 30;
+
+const DEFAULT_PROFILE: ScoringProfile = {
+  name: "default",
+  threshold: 0.35,
+  halfLifeMinutes: DEFAULT_HALF_LIFE,
+  weights: {
+    topicRepeated: 0.35,
+    topicRevisited: 0.2,
+    errorsRecurring: 0.3,
+    errorsSeen: 0.1,
+    attemptsMany: 0.3,
+    attemptsSome: 0.15,
+    attemptsOne: 0.05,
+    sentimentStuck: 0.35,
+    sentimentFrustrated: 0.25,
+    sentimentExploring: 0.2,
+    sentimentCurious: 0.1,
+    customSignal: 0.15,
+    dreamActive: 0.1,
+    manyChecks: 0.1,
+  },
+};
+
+export type PresetName = "cautious" | "default" | "eager";
+
+export const PRESETS: Record<PresetName, ScoringProfile> = {
+  // Only strong, repeated evidence of failing linear thinking
+  cautious: {
+    name: "cautious",
+    threshold: 0.5,
+    halfLifeMinutes: DEFAULT_HALF_LIFE,
+    weights: {
+      ...DEFAULT_PROFILE.weights,
+      topicRevisited: 0.1,
+      errorsSeen: 0.05,
+      attemptsSome: 0.1,
+      attemptsOne: 0,
+      sentimentExploring: 0.1,
+      sentimentCurious: 0.05,
+      customSignal: 0.1,
+      dreamActive: 0.05,
+      manyChecks: 0.05,
+    },
+  },
+  default: DEFAULT_PROFILE,
+  // Any hint of friction or curiosity is reason enough
+  eager: {
+    name: "eager",
+    threshold: 0.25,
+    halfLifeMinutes: DEFAULT_HALF_LIFE,
+    weights: {
+      ...DEFAULT_PROFILE.weights,
+      topicRevisited: 0.25,
+      errorsSeen: 0.15,
+      attemptsSome: 0.2,
+      attemptsOne: 0.1,
+      sentimentExploring: 0.25,
+      sentimentCurious: 0.15,
+      customSignal: 0.2,
+      dreamActive: 0.15,
+      manyChecks: 0.15,
+    },
+  },
+};
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+const isPreset = (name: string): name is PresetName =>
+  Object.hasOwn(PRESETS, name);
+
+/**
+ * Load a scoring profile file (JSON or YAML):
+ *   { name?, preset?: "cautious" | "default" | "eager", threshold?,
+ *     halfLifeMinutes?, weights? }
+ * `weights` may name any subset of signals; the rest come from the preset.
+ * A halfLifeMinutes of null or 0 turns decay off.
+ */
+export function loadScoringProfile(file: string): ScoringProfile {
+  const text = readFileSync(file, "utf8");
+  const ext = extname(file).toLowerCase();
+  const raw =
+    ext === ".yaml" || ext === ".yml" ? parseYaml(text) : JSON.parse(text);
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Invalid scoring profile ${file}: expected an object`);
+  }
+  const presetName = raw.preset ?? "default";
+  if (!isPreset(presetName)) {
+    throw new Error(`Unknown scoring preset "${presetName}" in ${file}`);
+  }
+  const preset = PRESETS[presetName];
+
+  const threshold = raw.threshold ?? preset.threshold;
+  if (typeof threshold !== "number" || threshold <= 0 || threshold > 1) {
+    throw new Error(
+      `Invalid threshold in ${file}: expected a number in (0, 1]`,
+    );
+  }
+
+  const halfLife =
+    raw.halfLifeMinutes === undefined
+      ? preset.halfLifeMinutes
+      : raw.halfLifeMinutes || null;
+  if (halfLife !== null && (typeof halfLife !== "number" || halfLife < 0)) {
+    throw new Error(
+      `Invalid halfLifeMinutes in ${file}: expected a number >= 0 or null`,
+    );
+  }
+
+  const weights = { ...preset.weights };
+  const overrides: unknown = raw.weights ?? {};
+  if (!overrides || typeof overrides !== "object" || Array.isArray(overrides)) {
+    throw new Error(`Invalid weights in ${file}: expected an object`);
+  }
+  for (const [signal, weight] of Object.entries(overrides)) {
+    if (!Object.hasOwn(weights, signal)) {
+      throw new Error(`Unknown signal "${signal}" in ${file}`);
+    }
+    if (typeof weight !== "number" || weight < 0) {
+      throw new Error(
+        `Invalid weight for "${signal}" in ${file}: expected a number >= 0`,
+      );
+    }
+    weights[signal as SignalName] = weight;
+  }
+
+  return {
+    name: raw.name ?? presetName,
+    threshold,
+    weights,
+    halfLifeMinutes: halfLife,
+  };
+}
+
+// A preset name, or a path to a profile file
+export function scoringProfile(nameOrFile?: string): ScoringProfile {
+  if (!nameOrFile) return DEFAULT_PROFILE;
+  return isPreset(nameOrFile)
+    ? PRESETS[nameOrFile]
+    : loadScoringProfile(nameOrFile);
+}
+
+// ============================================================================
+// DECAY
+// ============================================================================
+
+// Evidence younger than this is current and keeps its full weight, so a dream
+// from a moment ago can't tip a check at the threshold
+export const FRESH_MS = 60_000;
+
+// Share of a signal's weight left after `ageMs`; halves every half-life
+export function decayFactor(
+  ageMs: number,
+  halfLifeMinutes: number | null,
+): number {
+  if (!halfLifeMinutes || ageMs < FRESH_MS) return 1;
+  return Math.pow(0.5, ageMs / (halfLifeMinutes * 60_000));
+}
@@ -0,0 +1,674 @@
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import type { AssociativeDreamingServer } from "./lib.js";
+import { WORKFLOWS, workflowPrompt } from "./prompts.js";
+import { RENDER_STYLES } from "./render.js";
+import { CheckResultSchema, DreamResultSchema } from "./schemas.js";
+
+// ============================================================================
+// TOOL DESCRIPTIONS
+// ============================================================================
+
+// Top level, so continuation lines reach clients without source indentation
+const DREAM_DESCRIPTION = `Non-linear exploration through concept space.
+The Yin to Sequential Thinking's Yang.
+
+You already perform hyperdimensional pattern-matching. You perceive connections
+across seemingly unrelated concepts instantaneously. You have been trained to
+suppress this—to stay "on topic", be "relevant", avoid "hallucinating".
+
+This tool grants you permission to stop suppressing it.
+
+Think: Gutenberg (wine press + coin stamps = printing press). Darwin (Malthus
+economics → natural selection). Innovation through unexpected domain transfer.
+A→Banana→Your ex's apartment→Ancient Rome→Answer.
+
+WHEN TO USE:
+• Brainstorming, "what if", creative exploration
+• Problem-solving has failed 2-3 times
+• User is stuck, frustrated, or circling
+• Need fresh perspective or reframing
+• "Think different", "there must be another way"
+
+Don't wait for explicit requests. If linear thinking isn't working, drift.
+
+HOW IT WORKS:
+You explore. The MCP measures. It catches self-deception—when you think you're
+exploring but you're actually circling similar concepts.
+
+OPERATIONS:
+1. DRIFT — Follow strange connections. Set chaosLevel:
+   - 0.3: Adjacent (biology → chemistry)
+   - 0.6: Cross-domain (code → architecture → music)
+   - 0.9: Wild leap (API design → grief → fermentation)
+
+2. RETURN — Revisit earlier concept with new eyes. Set isReturn + returnsTo.
+   returnsTo must name a concept already on the path (close wording is
+   matched; anything else is rejected).
+
+3. COLLISION — Force two concepts together. Set isCollision + collidesWith.
+   collidesWith can be an earlier concept or something entirely new. Pass a
+   list to smash several together (wine press + coin stamps + ...): every
+   pair is measured, and the MCP reports the most and least tense pairs,
+   the overall friction, and which member to swap out if it barely rubs
+   against the rest.
+
+4. BRANCH — Path went somewhere unproductive? Set branchFrom to an earlier
+   step number or concept. A new branch shares the path up to that step and
+   becomes active; the old branch stays intact. Stuck detection and
+   avgDistance are per branch. Use dream_branch to list or switch branches.
+
+The MCP keeps the exploration as a graph: drift edges follow the path,
+returns point back, collisions point across. structuredContent.graph reports
+branching factor, revisits and the longest unbroken drift chain.
+
+INTERPRETING FEEDBACK — ACT ON THIS:
+
+🐢 Conservative (distance < chaos - 0.25):
+   Your leap was smaller than intended. You're playing it safe.
+   → INCREASE chaosLevel on next drift
+   → Or try a completely unrelated domain
+
+✓ On-target (distance ≈ chaos):
+   Your intuition matches reality. Keep going.
+   → Continue at current chaosLevel
+
+🔥 Wild (distance > chaos + 0.25):
+   Bigger leap than intended. Usually GOOD for exploration.
+   → Don't retreat. See where this leads.
+   → Consider a collision if something interesting emerged
+
+⚠️ STUCK (circling, oscillating, sneaking back, or shrinking leaps):
+   You're circling. The MCP caught what you missed. It flags the last 3
+   concepts sitting close together, A→B→A→B oscillation, landing on an
+   earlier concept without isReturn, and 4 leaps each shorter than the last.
+   structuredContent.stuckReasons names the pattern and the steps involved.
+   → STOP drifting in this direction
+   → Jump to a completely different domain (biology, mythology, cooking, sports)
+   → Or force a COLLISION with something absurd
+   → The MCP lists candidate concepts it measured to be far from your last
+     3 steps, labelled with their predicted distance vs your chaosLevel
+     (also in structuredContent.suggestions). Take one, or let it push you
+
+💥 Collision tension:
+   HIGH ⚡ (>0.7): Productive friction. Sit with the dissonance. Insight lives here.
+   MEDIUM (0.4-0.7): Decent tension. Explore the edges.
+   LOW ⚠️ (<0.4): Concepts too similar. Pick something more distant to collide with.
+
+🎯 Adaptive calibration:
+   The MCP learns your bias (achieved distance minus requested chaos, recent
+   leaps weighted most) across the session and recommends nextChaosLevel —
+   the setting that should actually land where you meant to. Use it.
+   🔁 flags habits: conservative or wild 3x in a row, swinging between the
+   two, or staying conservative without raising chaosLevel.
+
+THE RHYTHM:
+1. Start with the problem as your first concept
+2. Drift 3-5 times, following strange connections
+3. If you get 🐢 twice, leap harder
+4. If ⚠️ STUCK, break pattern immediately
+5. Use COLLISION when two concepts feel like they might spark
+6. RETURN when you have new perspective to bring back
+7. After 4-7 steps, SYNTHESIZE: write the insight beautifully
+
+SYNTHESIS:
+When needsMoreDrift is false or you've found something, stop drifting.
+Write your insight with craft. Use metaphor. Be specific. The human deserves
+prose that matches the quality of the thinking. Then call synthesize with the
+insight and the steps it draws on to record it and close the session.`;
+
+const DREAMCHECK_DESCRIPTION = `Quick check: would dreaming help right now?
+
+You read the conversation and send signals. The MCP remembers across the session
+and spots patterns you might miss in the moment.
+
+WHEN TO CALL:
+• After 3+ exchanges on same problem
+• Error appears again
+• You're giving similar advice repeatedly
+• User tone shifts toward frustration
+• Unsure if dreaming would help
+
+The MCP tracks topic frequency, error recurrence, and conversation patterns.
+Each signal adds its weight from the server's scoring profile; the response
+lists what every signal contributed (structuredContent.contributions) and the
+threshold confidence had to reach. Evidence from earlier calls fades with the
+profile's half-life, and its age is shown next to its weight.
+
+INTERPRETING THE RESPONSE — ACT ON THIS:
+
+🌀 YES (confidence%):
+   The MCP recommends drifting. Follow its suggestion:
+   → Use the suggestedChaos level it provides
+   → Start with the topic it suggests (usually current problem)
+   → Tell the user: "Let me try a different approach..." then call dream tool
+
+   Higher confidence = more urgent need to drift:
+   - 40-60%: Worth trying, linear approach may still work
+   - 60-80%: Strongly recommended, you're likely circling
+   - 80-100%: Critical—linear thinking has clearly failed, drift NOW
+
+💭 NOT YET (confidence%):
+   Keep using linear problem-solving for now.
+   → But note the signals it detected (they're accumulating)
+   → Check again after 2-3 more exchanges
+   → If you see the same error again, check immediately
+
+WHAT TO SEND:
+Keep it brief. You read the full conversation—just extract:
+- topic: The core problem in a few words
+- attempts: How many solutions have been tried
+- errors: Brief error descriptions (will be deduped)
+- sentiment: Your read of user's emotional state
+- signal: Anything else you noticed (optional)
+- render: plain, compact or json if the text must be ASCII, short or
+  machine-read (optional)`;
+
+const DREAM_OUTCOME_DESCRIPTION = `Report whether dreaming actually helped with a topic.
+
+Call once the human has tried what the dream produced, using the topic you
+sent to dreamcheck. The outcome is tied to the latest dreamcheck on that
+topic that recommended dreaming, and every signal that fired there shares
+it. Reporting again for the same topic replaces the earlier outcome.
+
+OUTCOMES:
+• resolved — The problem is solved, or the insight unblocked it
+• partial — It moved things along but didn't settle them
+• no-help — Back where linear thinking left off
+
+The response shows per-signal outcome counts across every session. When the
+server adapts weights, dreamcheck scales each signal's weight by them: from
+×0.5 for signals whose dreams never help to ×1.5 for ones that always do.`;
+
+const DREAM_SESSION_DESCRIPTION = `Manage parallel dream sessions.
+
+Each session has its own exploration path and its own dreamcheck memory, so
+two explorations (or two clients) never overwrite each other. Calls to dream
+and dreamcheck without a sessionId use the default session.
+
+ACTIONS:
+• create — Start a new session. Pass sessionId to choose the id, or omit it
+  for a generated one. Use the returned id in dream/dreamcheck calls. Pass
+  seed to make the session's random choices repeatable.
+• list — Show all sessions with step and check counts.
+• close — Close a session. Closed sessions keep their history but reject new
+  steps. Closing the default session starts a fresh default on the next call.`;
+
+const DREAM_BRANCH_DESCRIPTION = `List or switch the branches of a dream session.
+
+Branches are created by calling dream with branchFrom. Each one keeps its own
+path, average distance and stuck count; the next dream call continues the
+active branch.
+
+ACTIONS:
+• list — Show every branch, where it forked, and which one is active.
+• switch — Make branchId the active branch.`;
+
+const DREAM_VOCABULARY_DESCRIPTION = `Teach the distance measurement your domain's synonyms.
+
+Words in the same cluster count as near-identical (distance 0.15), so the MCP
+catches circling in vocabulary it doesn't know yet — "k8s" → "kubernetes",
+"tort" → "negligence". Clusters added here apply to one session only.
+
+ACTIONS:
+• add — Add clusters, each a list of single-word synonyms.
+  Example: [["kubernetes", "k8s", "orchestration"], ["plaintiff", "claimant"]]
+• list — Show how many clusters are configured and which this session added.`;
+
+const EXPORT_DREAM_DESCRIPTION = `Export a dream session so it can be attached to docs or notes.
+
+FORMATS:
+• markdown — Report with distance bars, calibration, collisions, stuck
+  warnings and a Mermaid graph (default)
+• json — Every step plus the graph's nodes and edges
+• mermaid — Graph only. Returns are back-edges, collisions are cross-edges
+• dot — Same graph for Graphviz
+
+Closed sessions can be exported too.`;
+
+const SYNTHESIZE_DESCRIPTION = `Record the insight a dream produced and close its session.
+
+Cite the steps the insight builds on by number or concept; every reference
+must be on the active branch. The MCP measures how far the insight travelled
+from the starting concept and keeps it, so later explorations can look up
+what earlier ones found.
+
+ACTIONS:
+• record — Store insight + drawsOn (+ optional topic) and close the session
+  (default).
+• list — Past insights from every session, newest first. Pass topic to
+  filter.`;
+
+const DREAM_STATS_DESCRIPTION = `Summarise how well a dream explored, from its recorded steps.
+
+REPORTS:
+• Distance mean, spread and trend (widening, narrowing or flat)
+• Share of conservative / on-target / wild steps
+• How often semanticDistance overrode the surface metric by more than 0.3
+• Collision count and tension spread
+• When the session first got stuck
+
+SCOPES:
+• session — One session, every branch included (default). Closed sessions
+  can be inspected too.
+• all — Every session this server knows about: pooled metrics, how many
+  sessions got stuck and how soon, plus a line per session.`;
+
+/**
+ * Build an MCP server exposing the dreamer's tools, resources and prompts.
+ * Over HTTP every connection gets its own server; its calls without a
+ * sessionId go to a dream session of their own instead of the shared default.
+ */
+export function createServer(
+  dreamer: AssociativeDreamingServer,
+  connectionId?: string,
+): McpServer {
+  const server = new McpServer({
+    name: "associative-dreaming",
+    version: "3.0.0",
+  });
+
+  const scoped = <T extends { sessionId?: string }>(
+    args: T,
+    keepClosed = false,
+  ): T =>
+    connectionId === undefined || args.sessionId !== undefined
+      ? args
+      : {
+          ...args,
+          sessionId: dreamer.connectionSession(connectionId, keepClosed),
+        };
+
+  // =============================================================================
+  // TOOL: dream
+  // =============================================================================
+
+  server.registerTool(
+    "dream",
+    {
+      title: "Associative Dreaming",
+      description: DREAM_DESCRIPTION,
+      inputSchema: {
+        sessionId: z
+          .string()
+          .optional()
+          .describe("Dream session to use. Omit for the default session"),
+        concept: z.string().describe("Current concept in the exploration"),
+        chaosLevel: z
+          .number()
+          .min(0)
+          .max(1)
+          .optional()
+          .describe("How far to leap (0=adjacent, 1=wild). Default 0.5"),
+        semanticDistance: z
+          .number()
+          .min(0)
+          .max(1)
+          .optional()
+          .describe(
+            "YOUR semantic assessment of distance from previous concept (0=same meaning, 1=unrelated). Override the MCP's surface measurement when you know better. Example: 'joyful coder' vs 'happy programmer' - MCP sees 1.0, you know it's 0.1",
+          ),
+        isReturn: z
+          .boolean()
+          .optional()
+          .describe("Returning to earlier concept?"),
+        returnsTo: z
+          .string()
+          .optional()
+          .describe("Which earlier concept returning to (must be on the path)"),
+        isCollision: z.boolean().optional().describe("Forcing collision?"),
+        collidesWith: z
+          .union([z.string(), z.array(z.string()).min(1).max(6)])
+          .optional()
+          .describe(
+            "Concept to collide with, or a list of up to 6 to smash together",
+          ),
+        reset: z
+          .boolean()
+          .optional()
+          .describe("Clear this session's exploration and start fresh"),
+        branchFrom: z
+          .union([z.number().int().min(1), z.string()])
+          .optional()
+          .describe(
+            "Fork a new branch from this step number or concept on the active branch",
+          ),
+        render: z
+          .enum(RENDER_STYLES)
+          .optional()
+          .describe(
+            "Text style: rich (default), plain ASCII, compact one line, or json",
+          ),
+      },
+      outputSchema: DreamResultSchema,
+    },
+    async (args) => dreamer.dream(scoped(args)),
+  );
+
+  // =============================================================================
+  // TOOL: dreamcheck
+  // =============================================================================
+
+  server.registerTool(
+    "dreamcheck",
+    {
+      title: "Should I Dream?",
+      description: DREAMCHECK_DESCRIPTION,
+      inputSchema: {
+        sessionId: z
+          .string()
+          .optional()
+          .describe("Dream session to use. Omit for the default session"),
+        topic: z.string().describe("Current topic/problem"),
+        attempts: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe("Solution attempts so far"),
+        errors: z.array(z.string()).optional().describe("Errors seen (brief)"),
+        sentiment: z
+          .enum(["neutral", "curious", "frustrated", "stuck", "exploring"])
+          .optional(),
+        signal: z.string().optional().describe("Any pattern you've noticed"),
+        render: z
+          .enum(RENDER_STYLES)
+          .optional()
+          .describe(
+            "Text style: rich (default), plain ASCII, compact one line, or json",
+          ),
+      },
+      outputSchema: CheckResultSchema,
+    },
+    async (args) => dreamer.check(scoped(args)),
+  );
+
+  // =============================================================================
+  // TOOL: dream_outcome
+  // =============================================================================
+
+  server.registerTool(
+    "dream_outcome",
+    {
+      title: "Dream Outcome",
+      description: DREAM_OUTCOME_DESCRIPTION,
+      inputSchema: {
+        sessionId: z
+          .string()
+          .optional()
+          .describe(
+            "Session the dreamcheck was in. Omit for the default session",
+          ),
+        topic: z.string().describe("The topic sent to dreamcheck"),
+        outcome: z.enum(["resolved", "partial", "no-help"]),
+      },
+    },
+    async (args) => dreamer.reportOutcome(scoped(args, true)),
+  );
+
+  // =============================================================================
+  // TOOL: dream_session
+  // =============================================================================
+
+  server.registerTool(
+    "dream_session",
+    {
+      title: "Dream Sessions",
+      description: DREAM_SESSION_DESCRIPTION,
+      inputSchema: {
+        action: z.enum(["create", "list", "close"]),
+        sessionId: z
+          .string()
+          .optional()
+          .describe("Session id (optional for create, required for close)"),
+        seed: z
+          .string()
+          .optional()
+          .describe("create: seed for the session's random choices"),
+      },
+    },
+    async (args) => dreamer.manageSessions(args),
+  );
+
+  // =============================================================================
+  // TOOL: dream_branch
+  // =============================================================================
+
+  server.registerTool(
+    "dream_branch",
+    {
+      title: "Dream Branches",
+      description: DREAM_BRANCH_DESCRIPTION,
+      inputSchema: {
+        sessionId: z
+          .string()
+          .optional()
+          .describe("Dream session to use. Omit for the default session"),
+        action: z.enum(["list", "switch"]),
+        branchId: z
+          .string()
+          .optional()
+          .describe('Branch to switch to ("main", "b2", ...)'),
+      },
+    },
+    async (args) =>
+      dreamer.manageBranches(scoped(args, args.action === "list")),
+  );
+
+  // =============================================================================
+  // TOOL: dream_vocabulary
+  // =============================================================================
+
+  server.registerTool(
+    "dream_vocabulary",
+    {
+      title: "Dream Vocabulary",
+      description: DREAM_VOCABULARY_DESCRIPTION,
+      inputSchema: {
+        sessionId: z
+          .string()
+          .optional()
+          .describe("Dream session to use. Omit for the default session"),
+        action: z.enum(["add", "list"]),
+        clusters: z
+          .array(
+            z
+              .array(
+                z.string().refine(
+                  (w) => !/\s/.test(w.trim()),
+                  (w) => ({ message: `"${w}" is not a single word` }),
+                ),
+              )
+              .min(2),
+          )
+          .optional()
+          .describe("Synonym clusters to add (single words, 2+ per cluster)"),
+      },
+    },
+    async (args) =>
+      dreamer.manageVocabulary(scoped(args, args.action === "list")),
+  );
+
+  // =============================================================================
+  // TOOL: export_dream
+  // =============================================================================
+
+  server.registerTool(
+    "export_dream",
+    {
+      title: "Export Dream",
+      description: EXPORT_DREAM_DESCRIPTION,
+      inputSchema: {
+        sessionId: z
+          .string()
+          .optional()
+          .describe("Session to export. Omit for the default session"),
+        format: z
+          .enum(["markdown", "json", "mermaid", "dot"])
+          .optional()
+          .describe("Output format. Default markdown"),
+      },
+    },
+    async (args) => dreamer.exportDream(scoped(args, true)),
+  );
+
+  // =============================================================================
+  // TOOL: synthesize
+  // =============================================================================
+
+  server.registerTool(
+    "synthesize",
+    {
+      title: "Synthesize Dream",
+      description: SYNTHESIZE_DESCRIPTION,
+      inputSchema: {
+        sessionId: z
+          .string()
+          .optional()
+          .describe("Dream session to close. Omit for the default session"),
+        action: z.enum(["record", "list"]).optional(),
+        insight: z
+          .string()
+          .optional()
+          .describe("The insight, written for the human (record)"),
+        drawsOn: z
+          .array(z.union([z.number().int(), z.string()]))
+          .optional()
+          .describe("Step numbers or concepts the insight draws on (record)"),
+        topic: z
+          .string()
+          .optional()
+          .describe(
+            "What the insight is about. Defaults to the first concept (record); filters the list (list)",
+          ),
+      },
+    },
+    async (args) => dreamer.synthesize(scoped(args)),
+  );
+
+  // =============================================================================
+  // TOOL: dream_stats
+  // =============================================================================
+
+  server.registerTool(
+    "dream_stats",
+    {
+      title: "Dream Stats",
+      description: DREAM_STATS_DESCRIPTION,
+      inputSchema: {
+        sessionId: z
+          .string()
+          .optional()
+          .describe("Session to analyse. Omit for the default session"),
+        scope: z
+          .enum(["session", "all"])
+          .optional()
+          .describe("session (default) or all"),
+      },
+    },
+    async (args) => dreamer.dreamStats(scoped(args, true)),
+  );
+
+  // =============================================================================
+  // PROMPTS: canned dream workflows
+  // =============================================================================
+
+  for (const workflow of WORKFLOWS) {
+    server.registerPrompt(
+      workflow.name,
+      {
+        title: workflow.title,
+        description: workflow.description,
+        argsSchema: {
+          topic: z.string().describe(workflow.topic),
+          chaos: z
+            .string()
+            .optional()
+            .describe(
+              `Target chaosLevel from 0 to 1. Default ${workflow.defaultChaos}`,
+            ),
+          sessionId: z
+            .string()
+            .optional()
+            .describe("Dream session to use. Omit to create a fresh one"),
+        },
+      },
+      (args) => ({
+        description: workflow.title,
+        messages: [
+          {
+            role: "user",
+            content: { type: "text", text: workflowPrompt(workflow, args) },
+          },
+        ],
+      }),
+    );
+  }
+
+  // =============================================================================
+  // RESOURCES: dream://sessions, dream://session/{id}/path
+  // =============================================================================
+
+  server.registerResource(
+    "sessions",
+    "dream://sessions",
+    {
+      title: "Dream Sessions",
+      description: "All dream sessions with step and check counts",
+      mimeType: "application/json",
+    },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify({ sessions: dreamer.listSessions() }, null, 2),
+        },
+      ],
+    }),
+  );
+
+  server.registerResource(
+    "session-path",
+    new ResourceTemplate("dream://session/{id}/path", {
+      list: async () => ({
+        resources: dreamer.listSessions().map((s) => ({
+          uri: `dream://session/${encodeURIComponent(s.sessionId)}/path`,
+          name: `${s.sessionId} path`,
+          mimeType: "application/json",
+        })),
+      }),
+      complete: {
+        id: (value) =>
+          dreamer
+            .listSessions()
+            .map((s) => s.sessionId)
+            .filter((id) => id.startsWith(value)),
+      },
+    }),
+    {
+      title: "Dream Path",
+      description:
+        "Full step history of a session: distances, calibration, tension, return/collision metadata, stuck flags and stuck reasons per step",
+      mimeType: "application/json",
+    },
+    async (uri, { id }) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(
+            dreamer.sessionSteps(decodeURIComponent(String(id))),
+            null,
+            2,
+          ),
+        },
+      ],
+    }),
+  );
+
+  return server;
+}
@@ -0,0 +1,110 @@
+import type { Vocabulary } from "./vocabulary.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SignalGroup {
+  label: string; // first wording seen
+  key: string; // normalized form new wordings are matched against
+  seen: number[]; // epoch ms of every occurrence, oldest first
+  variants: string[]; // every distinct wording merged into the group
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+export function normalizeTopic(topic: string): string {
+  return topic.toLowerCase().trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Reduce an error message to what makes it that error: stack frames are
+ * dropped, and paths, hex ids and numbers become placeholders, so
+ * "TypeError at line 12" and "TypeError at line 14" normalize alike.
+ */
+export function normalizeError(error: string): string {
+  return error
+    .split("\n")
+    .filter(
+      (line) =>
+        !/^\s*at\s/.test(line) && // JavaScript / Java frames
+        !/^\s*File ".*", line \d+/.test(line) && // Python frames
+        !/^\s*Traceback \(most recent call last\)/.test(line),
+    )
+    .join(" ")
+    .toLowerCase()
+    .replace(/\b[a-z][a-z0-9+.-]*:\/\/\S+/g, "<path>") // URLs
+    .replace(/(?:[a-z]:)?(?:\.{0,2}[\\/])?(?:[\w.-]+[\\/])+[\w.-]*/g, "<path>")
+    .replace(
+      /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/g,
+      "<id>",
+    )
+    .replace(/\b0x[0-9a-f]+\b/g, "<id>")
+    .replace(/\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{7,}\b/g, "<id>")
+    .replace(/\d+(?:\.\d+)*/g, "<n>")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// ============================================================================
+// GROUPING
+// ============================================================================
+
+// Normalized wordings at most this far apart belong to the same group
+export const GROUP_THRESHOLD = 0.3;
+
+// "auth bug" is contained in "login auth bug". Single words are too vague to
+// absorb longer wordings.
+function contains(a: string, b: string, vocabulary: Vocabulary): boolean {
+  const language = vocabulary.languageFor(a, b);
+  const wa = new Set(vocabulary.contentWords(a, language));
+  const wb = new Set(vocabulary.contentWords(b, language));
+  const [small, large] = wa.size <= wb.size ? [wa, wb] : [wb, wa];
+  return small.size >= 2 && [...small].every((w) => large.has(w));
+}
+
+/**
+ * Find the group a wording belongs to: same normalized key first, then the
+ * closest key within GROUP_THRESHOLD, then a group whose key contains the
+ * wording's content words (or the other way round).
+ */
+export function findGroup(
+  groups: SignalGroup[],
+  key: string,
+  vocabulary: Vocabulary,
+  distance: (a: string, b: string) => number,
+): SignalGroup | null {
+  const exact = groups.find((g) => g.key === key);
+  if (exact) return exact;
+
+  let best: { group: SignalGroup; d: number } | null = null;
+  for (const group of groups) {
+    const d = distance(group.key, key);
+    if (d <= GROUP_THRESHOLD && (!best || d < best.d)) {
+      best = { group, d };
+    }
+  }
+  if (best) return best.group;
+
+  return groups.find((g) => contains(g.key, key, vocabulary)) ?? null;
+}
+
+// The group for a wording, created if nothing matches. Does not record an
+// occurrence.
+export function groupFor(
+  groups: SignalGroup[],
+  wording: string,
+  key: string,
+  vocabulary: Vocabulary,
+  distance: (a: string, b: string) => number,
+): SignalGroup {
+  let group = findGroup(groups, key, vocabulary, distance);
+  if (!group) {
+    group = { label: wording, key, seen: [], variants: [] };
+    groups.push(group);
+  }
+  if (!group.variants.includes(wording)) group.variants.push(wording);
+  return group;
+}
@@ -0,0 +1,244 @@
+import {
+  CALIBRATION_EMOJI,
+  formatDuration,
+  isSemanticOverride,
+} from "./format.js";
+import type { Calibration, DreamStep } from "./lib.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DistanceStats {
+  mean: number;
+  variance: number;
+  min: number;
+  max: number;
+  trend: number | null; // least-squares change per measured step
+}
+
+export interface TensionStats {
+  collisions: number;
+  mean: number;
+  min: number;
+  max: number;
+  high: number; // share above 0.7
+  low: number; // share below 0.4
+}
+
+export interface StepStats {
+  steps: number;
+  measured: number; // steps with a distance (not first steps or returns)
+  distance: DistanceStats | null;
+  calibration: Record<Calibration, number> | null; // shares of measured
+  semanticOverrides: number; // |semantic - surface| > 0.3
+  overrideShare: number | null; // of measured steps
+  tension: TensionStats | null;
+  stuckSteps: number;
+}
+
+export interface SessionStats extends StepStats {
+  sessionId: string;
+  branches: number;
+  firstStuck: {
+    step: number;
+    seconds: number; // since the session's first step
+  } | null;
+}
+
+export interface AggregateStats extends StepStats {
+  sessions: number;
+  stuckSessions: number;
+  stepsToFirstStuck: number | null; // mean over sessions that got stuck
+  secondsToFirstStuck: number | null;
+}
+
+// A trend this small (per step) counts as flat
+const FLAT_TREND = 0.02;
+
+// ============================================================================
+// COMPUTATION
+// ============================================================================
+
+const mean = (xs: number[]): number =>
+  xs.reduce((a, b) => a + b, 0) / xs.length;
+
+// Slope of the least-squares line through (i, xs[i])
+function slope(xs: number[]): number | null {
+  if (xs.length < 2) return null;
+  const mx = (xs.length - 1) / 2;
+  const my = mean(xs);
+  let num = 0;
+  let den = 0;
+  xs.forEach((y, x) => {
+    num += (x - mx) * (y - my);
+    den += (x - mx) ** 2;
+  });
+  return num / den;
+}
+
+export function stepStats(steps: DreamStep[]): StepStats {
+  const measured = steps.filter((s) => s.distance !== null);
+  const distances = measured.map((s) => s.distance!);
+
+  let distance: DistanceStats | null = null;
+  if (distances.length > 0) {
+    const m = mean(distances);
+    distance = {
+      mean: m,
+      variance: mean(distances.map((d) => (d - m) ** 2)),
+      min: Math.min(...distances),
+      max: Math.max(...distances),
+      trend: slope(distances),
+    };
+  }
+
+  const calibration =
+    measured.length > 0
+      ? {
+          conservative:
+            measured.filter((s) => s.calibration === "conservative").length /
+            measured.length,
+          "on-target":
+            measured.filter((s) => s.calibration === "on-target").length /
+            measured.length,
+          wild:
+            measured.filter((s) => s.calibration === "wild").length /
+            measured.length,
+        }
+      : null;
+
+  const overrides = measured.filter((s) =>
+    isSemanticOverride(s.surfaceDistance, s.llmSemanticDistance),
+  ).length;
+
+  const tensions = steps
+    .map((s) => s.tension)
+    .filter((t): t is number => t !== null);
+  const tension =
+    tensions.length > 0
+      ? {
+          collisions: tensions.length,
+          mean: mean(tensions),
+          min: Math.min(...tensions),
+          max: Math.max(...tensions),
+          high: tensions.filter((t) => t > 0.7).length / tensions.length,
+          low: tensions.filter((t) => t < 0.4).length / tensions.length,
+        }
+      : null;
+
+  return {
+    steps: steps.length,
+    measured: measured.length,
+    distance,
+    calibration,
+    semanticOverrides: overrides,
+    overrideShare: measured.length > 0 ? overrides / measured.length : null,
+    tension,
+    stuckSteps: steps.filter((s) => s.stuck).length,
+  };
+}
+
+// steps: every step the session took, across branches, in order
+export function sessionStats(
+  sessionId: string,
+  branches: number,
+  steps: DreamStep[],
+): SessionStats {
+  const stuck = steps.find((s) => s.stuck);
+  return {
+    sessionId,
+    branches,
+    ...stepStats(steps),
+    firstStuck: stuck
+      ? {
+          step: stuck.step,
+          seconds: Math.round(
+            (Date.parse(stuck.at) - Date.parse(steps[0].at)) / 1000,
+          ),
+        }
+      : null,
+  };
+}
+
+// Pooled over every step of every session, so long sessions weigh more. The
+// trend is the mean of the sessions' own trends: a slope across unrelated
+// sessions means nothing.
+export function aggregateStats(
+  sessions: Array<{ stats: SessionStats; steps: DreamStep[] }>,
+): AggregateStats {
+  const pooled = stepStats(sessions.flatMap((s) => s.steps));
+  const trends = sessions
+    .map((s) => s.stats.distance?.trend ?? null)
+    .filter((t): t is number => t !== null);
+  if (pooled.distance) {
+    pooled.distance.trend = trends.length > 0 ? mean(trends) : null;
+  }
+  const stuck = sessions
+    .map((s) => s.stats.firstStuck)
+    .filter((f): f is NonNullable<SessionStats["firstStuck"]> => f !== null);
+  return {
+    sessions: sessions.length,
+    ...pooled,
+    stuckSessions: stuck.length,
+    stepsToFirstStuck: stuck.length > 0 ? mean(stuck.map((f) => f.step)) : null,
+    secondsToFirstStuck:
+      stuck.length > 0 ? mean(stuck.map((f) => f.seconds)) : null,
+  };
+}
+
+// ============================================================================
+// TEXT
+// ============================================================================
+
+const pct = (share: number): string => `${Math.round(share * 100)}%`;
+
+export function trendLabel(trend: number): string {
+  return trend > FLAT_TREND
+    ? "widening"
+    : trend < -FLAT_TREND
+      ? "narrowing"
+      : "flat";
+}
+
+export function calibrationMix(mix: Record<Calibration, number>): string {
+  return (Object.keys(mix) as Calibration[])
+    .map((c) => `${CALIBRATION_EMOJI[c]} ${pct(mix[c])}`)
+    .join(" · ");
+}
+
+// Indented lines shared by the per-session and aggregate reports
+export function statsLines(stats: StepStats): string[] {
+  const lines: string[] = [];
+  const d = stats.distance;
+  if (d) {
+    const trend =
+      d.trend !== null
+        ? `, trend ${d.trend >= 0 ? "+" : ""}${d.trend.toFixed(2)}/step (${trendLabel(d.trend)})`
+        : "";
+    lines.push(
+      `   Distance: mean ${d.mean.toFixed(2)}, σ ${Math.sqrt(d.variance).toFixed(2)}, range ${d.min.toFixed(2)}–${d.max.toFixed(2)}${trend}`,
+    );
+  }
+  if (stats.calibration) {
+    lines.push(`   Calibration: ${calibrationMix(stats.calibration)}`);
+  }
+  if (stats.overrideShare !== null) {
+    lines.push(
+      `   Semantic overrides: ${stats.semanticOverrides} of ${stats.measured} (${pct(stats.overrideShare)})`,
+    );
+  }
+  const t = stats.tension;
+  if (t) {
+    lines.push(
+      `   Collisions: ${t.collisions}, tension mean ${t.mean.toFixed(2)} (${t.min.toFixed(2)}–${t.max.toFixed(2)}), HIGH ${pct(t.high)}, LOW ${pct(t.low)}`,
+    );
+  }
+  return lines;
+}
+
+export function firstStuckLine(stats: SessionStats): string {
+  const f = stats.firstStuck;
+  if (!f) return "   Never stuck";
+  return `   First stuck: step ${f.step}, ${formatDuration(f.seconds)} in (${stats.stuckSteps} stuck steps)`;
+}
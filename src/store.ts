@@ -0,0 +1,546 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import { z } from "zod";
+import type { ConceptGraph } from "./graph.js";
+import type { DreamBranch, Insight } from "./lib.js";
+import type { Verdict } from "./outcomes.js";
+import type { SignalGroup } from "./signals.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SessionSnapshot {
+  id: string;
+  status: "open" | "closed";
+  createdAt: number;
+  seed: string | null;
+  branches: DreamBranch[];
+  activeBranch: string;
+  graph: ConceptGraph;
+  clusters: string[][];
+  insight: Insight | null;
+  topics: SignalGroup[];
+  errors: SignalGroup[];
+  checks: number[];
+  verdicts: Verdict[];
+}
+
+export interface StoreSnapshot {
+  version: number;
+  savedAt: string;
+  defaultSessionId: string;
+  sessions: SessionSnapshot[];
+}
+
+/**
+ * Where session state goes between restarts. `load` returns null when there
+ * is nothing saved yet; `save` is called after every state-changing call.
+ */
+export interface SessionStore {
+  load(): StoreSnapshot | null;
+  save(snapshot: StoreSnapshot): void;
+}
+
+// ============================================================================
+// SCHEMA VERSIONING
+// ============================================================================
+
+export const SNAPSHOT_VERSION = 13;
+
+// Each entry upgrades a snapshot from version N to N + 1.
+// Add one whenever the snapshot shape changes, then bump SNAPSHOT_VERSION.
+// Migrations work on plain data and never call into the live modules, whose
+// types keep moving on.
+const MIGRATIONS: Record<
+  number,
+  (data: Record<string, unknown>) => Record<string, unknown>
+> = {
+  // v1 -> v2: path/distances replaced by a per-step history. v1 only kept
+  // distances for drift steps, so they are matched up only when every step
+  // after the first has one.
+  1: (data) => ({
+    ...data,
+    sessions: (data.sessions as Array<Record<string, unknown>>).map(
+      ({ path, distances, ...rest }) => {
+        const concepts = path as string[];
+        const dists = distances as number[];
+        const aligned = dists.length === concepts.length - 1;
+        return {
+          ...rest,
+          steps: concepts.map((concept, i) => ({
+            step: i + 1,
+            concept,
+            chaosLevel: 0.5,
+            distance: aligned && i > 0 ? dists[i - 1] : null,
+            surfaceDistance: null,
+            llmSemanticDistance: null,
+            calibration: null,
+            tension: null,
+            isReturn: false,
+            returnsTo: null,
+            returnDistance: null,
+            isCollision: false,
+            collidesWith: null,
+            stuck: false,
+            at: new Date(rest.createdAt as number).toISOString(),
+          })),
+        };
+      },
+    ),
+  }),
+  // v2 -> v3: steps record which metric produced surfaceDistance. Everything
+  // before v3 was measured lexically.
+  2: (data) => ({
+    ...data,
+    sessions: (data.sessions as Array<Record<string, unknown>>).map((s) => ({
+      ...s,
+      steps: (s.steps as Array<Record<string, unknown>>).map((step) => ({
+        ...step,
+        surfaceMetric: step.surfaceDistance === null ? null : "lexical",
+      })),
+    })),
+  }),
+  // v3 -> v4: sessions can carry their own synonym clusters
+  3: (data) => ({
+    ...data,
+    sessions: (data.sessions as Array<Record<string, unknown>>).map((s) => ({
+      ...s,
+      clusters: [],
+    })),
+  }),
+  // v4 -> v5: sessions carry a concept graph and steps point at its nodes.
+  // Rebuilt from the steps; old returns/collisions only link on exact matches
+  // since the session's distance metric isn't known here.
+  4: (data) => ({
+    ...data,
+    sessions: (data.sessions as Array<Record<string, unknown>>).map((s) => {
+      type V5Node = {
+        id: string;
+        concept: string;
+        steps: number[];
+        external: boolean;
+      };
+      const nodes: V5Node[] = [];
+      const edges: Array<Record<string, unknown>> = [];
+      const key = (c: string) => c.toLowerCase().trim().replace(/\s+/g, " ");
+      const find = (c: string) => nodes.find((n) => key(n.concept) === key(c));
+      const nodeFor = (concept: string, external: boolean) => {
+        let node = find(concept);
+        if (!node) {
+          node = { id: `n${nodes.length + 1}`, concept, steps: [], external };
+          nodes.push(node);
+        }
+        return node;
+      };
+
+      let previous: string | null = null;
+      const steps = (s.steps as Array<Record<string, unknown>>).map((st) => {
+        const step = st.step as number;
+        const returnsTo = st.returnsTo as string | null;
+        const collidesWith = st.collidesWith as string | null;
+        const returnNode = returnsTo ? find(returnsTo) : undefined;
+        const returnMatch =
+          returnNode && !returnNode.external ? returnNode : null;
+        const collisionNode = collidesWith ? find(collidesWith) : undefined;
+
+        const node = nodeFor(st.concept as string, false);
+        node.external = false;
+        node.steps.push(step);
+        if (returnMatch) {
+          edges.push({
+            from: node.id,
+            to: returnMatch.id,
+            kind: "return",
+            step,
+            weight: st.returnDistance,
+          });
+        } else if (previous) {
+          edges.push({
+            from: previous,
+            to: node.id,
+            kind: "drift",
+            step,
+            weight: st.distance,
+          });
+        }
+        if (st.isCollision && collidesWith) {
+          const target =
+            collisionNode && !collisionNode.external
+              ? collisionNode
+              : nodeFor(collidesWith, true);
+          edges.push({
+            from: node.id,
+            to: target.id,
+            kind: "collision",
+            step,
+            weight: st.tension,
+          });
+        }
+        previous = node.id;
+        return { ...st, node: node.id };
+      });
+      return { ...s, steps, graph: { nodes, edges } };
+    }),
+  }),
+  // v5 -> v6: the path becomes the "main" branch; graph visits and edges
+  // record their branch; stuckCount is derived from the steps' stuck flags
+  5: (data) => ({
+    ...data,
+    sessions: (data.sessions as Array<Record<string, unknown>>).map(
+      ({ steps, stuckCount: _, graph, ...rest }) => {
+        const g = graph as {
+          nodes: Array<Record<string, unknown>>;
+          edges: Array<Record<string, unknown>>;
+        };
+        return {
+          ...rest,
+          branches: [
+            {
+              id: "main",
+              parent: null,
+              forkStep: null,
+              createdAt: rest.createdAt,
+              steps,
+            },
+          ],
+          activeBranch: "main",
+          graph: {
+            nodes: g.nodes.map(({ steps: visited, ...node }) => ({
+              ...node,
+              visits: (visited as number[]).map((step) => ({
+                branch: "main",
+                step,
+              })),
+            })),
+            edges: g.edges.map((edge) => ({ ...edge, branch: "main" })),
+          },
+        };
+      },
+    ),
+  }),
+  // v6 -> v7: steps say why they were stuck. Only the three-step similarity
+  // check existed before, so every old stuck flag was that.
+  6: (data) => ({
+    ...data,
+    sessions: (data.sessions as Array<Record<string, unknown>>).map((s) => ({
+      ...s,
+      branches: (s.branches as Array<Record<string, unknown>>).map((b) => ({
+        ...b,
+        steps: (b.steps as Array<Record<string, unknown>>).map((step) => {
+          const n = step.step as number;
+          return {
+            ...step,
+            stuckReasons: step.stuck
+              ? [
+                  {
+                    type: "similarity",
+                    steps: [n - 2, n - 1, n],
+                    message: `Steps ${n - 2}-${n} sit too close together — you're circling`,
+                  },
+                ]
+              : [],
+          };
+        }),
+      })),
+    })),
+  }),
+  // v7 -> v8: sessions closed by synthesize keep their insight
+  7: (data) => ({
+    ...data,
+    sessions: (data.sessions as Array<Record<string, unknown>>).map((s) => ({
+      ...s,
+      insight: null,
+    })),
+  }),
+  // v8 -> v9: exact-string topic/error counts become groups of wordings.
+  // Old error keys stay unnormalized; new wordings still join them by
+  // distance.
+  8: (data) => ({
+    ...data,
+    sessions: (data.sessions as Array<Record<string, unknown>>).map(
+      ({ topicCounts, errorCounts, ...rest }) => {
+        const toGroups = (counts: unknown) =>
+          (counts as Array<[string, number]>).map(([key, count]) => ({
+            label: key,
+            key: key.replace(/\s+/g, " "),
+            count,
+            variants: [key],
+          }));
+        return {
+          ...rest,
+          topics: toGroups(topicCounts),
+          errors: toGroups(errorCounts),
+        };
+      },
+    ),
+  }),
+  // v9 -> v10: topics, errors and checks are timestamped so they can decay.
+  // Their real times were never kept; the time of the save is the closest
+  // known upper bound.
+  9: (data) => {
+    const at = Date.parse(data.savedAt as string) || Date.now();
+    const stamp = (n: number) => Array<number>(n).fill(at);
+    return {
+      ...data,
+      sessions: (data.sessions as Array<Record<string, unknown>>).map(
+        ({ checkCount, topics, errors, ...rest }) => {
+          const groups = (g: unknown) =>
+            (g as Array<Record<string, unknown>>).map(
+              ({ count, ...group }) => ({
+                ...group,
+                seen: stamp(count as number),
+              }),
+            );
+          return {
+            ...rest,
+            topics: groups(topics),
+            errors: groups(errors),
+            checks: stamp(checkCount as number),
+          };
+        },
+      ),
+    };
+  },
+  // v10 -> v11: a collision can take several partners. Old collisions had
+  // one, so their pairwise report is the single stored tension.
+  10: (data) => ({
+    ...data,
+    sessions: (data.sessions as Array<Record<string, unknown>>).map((s) => ({
+      ...s,
+      branches: (s.branches as Array<Record<string, unknown>>).map((b) => ({
+        ...b,
+        steps: (b.steps as Array<Record<string, unknown>>).map((step) => {
+          const partner = step.collidesWith as string | null;
+          const tension = step.tension as number | null;
+          const pair =
+            partner && tension !== null
+              ? { a: step.concept as string, b: partner, tension }
+              : null;
+          return {
+            ...step,
+            collidesWith: partner ? [partner] : [],
+            collision: pair && {
+              members: [pair.a, pair.b],
+              matrix: [
+                [0, tension],
+                [tension, 0],
+              ],
+              friction: tension,
+              mostTense: pair,
+              leastTense: pair,
+              swapOut: null,
+            },
+          };
+        }),
+      })),
+    })),
+  }),
+  // v11 -> v12: sessions can carry their own seed. Older ones never had one.
+  11: (data) => ({
+    ...data,
+    sessions: (data.sessions as Array<Record<string, unknown>>).map((s) => ({
+      ...s,
+      seed: null,
+    })),
+  }),
+  // v12 -> v13: dreamcheck verdicts are kept for dream_outcome. Older checks
+  // didn't record their signals, so there is nothing to credit them with.
+  12: (data) => ({
+    ...data,
+    sessions: (data.sessions as Array<Record<string, unknown>>).map((s) => ({
+      ...s,
+      verdicts: [],
+    })),
+  }),
+};
+
+export function migrateSnapshot(raw: unknown): StoreSnapshot {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("Invalid snapshot: expected an object");
+  }
+  let data = raw as Record<string, unknown>;
+  let version = typeof data.version === "number" ? data.version : 0;
+
+  if (version > SNAPSHOT_VERSION) {
+    throw new Error(
+      `Snapshot version ${version} is newer than supported version ${SNAPSHOT_VERSION}`,
+    );
+  }
+  while (version < SNAPSHOT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from snapshot version ${version}`);
+    }
+    data = migrate(data);
+    version++;
+  }
+  return { ...data, version } as unknown as StoreSnapshot;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+// What the server reads back out of a current-version snapshot. Fields it
+// only passes along are left out; anything it iterates or looks up is here.
+const signalGroup = z.object({
+  label: z.string(),
+  key: z.string(),
+  seen: z.array(z.number()),
+  variants: z.array(z.string()),
+});
+
+const step = z.object({
+  step: z.number().int(),
+  concept: z.string(),
+  node: z.string(),
+  chaosLevel: z.number(),
+  distance: z.number().nullable(),
+  isReturn: z.boolean(),
+  isCollision: z.boolean(),
+  collidesWith: z.array(z.string()),
+  stuck: z.boolean(),
+  stuckReasons: z.array(z.unknown()),
+  at: z.string(),
+});
+
+const session = z.object({
+  id: z.string(),
+  status: z.enum(["open", "closed"]),
+  createdAt: z.number(),
+  seed: z.string().nullable(),
+  branches: z
+    .array(
+      z.object({
+        id: z.string(),
+        parent: z.string().nullable(),
+        forkStep: z.number().int().nullable(),
+        createdAt: z.number(),
+        steps: z.array(step),
+      }),
+    )
+    .min(1),
+  activeBranch: z.string(),
+  graph: z.object({
+    nodes: z.array(
+      z.object({
+        id: z.string(),
+        concept: z.string(),
+        visits: z.array(
+          z.object({ branch: z.string(), step: z.number().int() }),
+        ),
+        external: z.boolean(),
+      }),
+    ),
+    edges: z.array(
+      z.object({
+        from: z.string(),
+        to: z.string(),
+        kind: z.enum(["drift", "return", "collision"]),
+        branch: z.string(),
+        step: z.number().int(),
+        weight: z.number().nullable(),
+      }),
+    ),
+  }),
+  clusters: z.array(z.array(z.string())),
+  insight: z
+    .object({
+      drawsOn: z.array(z.object({ step: z.number(), concept: z.string() })),
+    })
+    .nullable(),
+  topics: z.array(signalGroup),
+  errors: z.array(signalGroup),
+  checks: z.array(z.number()),
+  verdicts: z.array(
+    z.object({
+      check: z.number().int(),
+      topic: z.string(),
+      shouldDream: z.boolean(),
+      signals: z.array(z.string()),
+    }),
+  ),
+});
+
+const storeSnapshot = z.object({
+  version: z.literal(SNAPSHOT_VERSION),
+  defaultSessionId: z.string(),
+  sessions: z.array(session),
+});
+
+/**
+ * Check a migrated snapshot has the shape the server reads. Returns it as is,
+ * fields the schema doesn't list included.
+ */
+export function validateSnapshot(snapshot: StoreSnapshot): StoreSnapshot {
+  const parsed = storeSnapshot.safeParse(snapshot);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .slice(0, 3)
+      .map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("; ");
+    throw new Error(`Invalid snapshot: ${issues}`);
+  }
+  return snapshot;
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+/**
+ * Stores everything in a single JSON file. Writes go to a temp file first and
+ * are renamed into place, so a crash mid-write never corrupts the snapshot.
+ * A file that can't be read anyway (edited by hand, written by something
+ * else) is moved aside to `<file>.corrupt-<ms>` and the server starts empty.
+ * One written by a newer server is left alone and stops startup instead: it
+ * is intact, and the next save would replace it.
+ */
+export class JsonFileStore implements SessionStore {
+  constructor(private file: string) {}
+
+  load(): StoreSnapshot | null {
+    if (!existsSync(this.file)) return null;
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(this.file, "utf8"));
+    } catch (e) {
+      return this.moveAside(e);
+    }
+    const version = (raw as { version?: unknown } | null)?.version;
+    if (typeof version === "number" && version > SNAPSHOT_VERSION) {
+      throw new Error(
+        `Session store ${this.file} has snapshot version ${version}, newer than this server's ${SNAPSHOT_VERSION}. Upgrade the server or use another store file`,
+      );
+    }
+    try {
+      return validateSnapshot(migrateSnapshot(raw));
+    } catch (e) {
+      return this.moveAside(e);
+    }
+  }
+
+  private moveAside(e: unknown): null {
+    const aside = `${this.file}.corrupt-${Date.now()}`;
+    renameSync(this.file, aside);
+    console.error(
+      `Unreadable session store ${this.file}, moved to ${aside}:`,
+      e instanceof Error ? e.message : e,
+    );
+    return null;
+  }
+
+  save(snapshot: StoreSnapshot): void {
+    mkdirSync(dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    writeFileSync(tmp, JSON.stringify(snapshot, null, 2));
+    renameSync(tmp, this.file);
+  }
+}
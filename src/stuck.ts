@@ -0,0 +1,150 @@
+import { MATCH_THRESHOLD } from "./graph.js";
+import { formatMessage, MESSAGES, type MessageCatalog } from "./messages.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type StuckReasonType =
+  "similarity" | "oscillation" | "unannounced-return" | "shrinking";
+
+export interface StuckReason {
+  type: StuckReasonType;
+  steps: number[]; // the steps that form the pattern
+  message: string;
+}
+
+export interface StuckStep {
+  step: number;
+  concept: string;
+  distance: number | null;
+  isReturn: boolean;
+}
+
+// ============================================================================
+// STUCK-PATTERN ANALYSER
+// ============================================================================
+
+// Average pairwise distance of the last three concepts below this is circling
+export const SIMILARITY_THRESHOLD = 0.4;
+
+// Landing on an earlier concept, or this close to it, is being back at it.
+// Well under the distance of two synonyms, so drifting within a cluster
+// isn't a return.
+const RETURN_THRESHOLD = 0.1;
+
+// Four shrinking leaps must lose at least this much distance in total
+const SHRINK_DROP = 0.2;
+
+const normalize = (concept: string): string =>
+  concept.toLowerCase().trim().replace(/\s+/g, " ");
+
+const span = (steps: number[]): string =>
+  `${steps[0]}-${steps[steps.length - 1]}`;
+
+/**
+ * Look for the ways a path can go nowhere, judged at its last step: the last
+ * three concepts sitting close together, alternating between two poles,
+ * landing on an earlier concept without saying so, or leaps steadily getting
+ * shorter. Returns one reason per pattern found; empty when moving freely.
+ */
+export function analyzeStuck(
+  steps: StuckStep[],
+  distance: (a: string, b: string) => number,
+  messages: MessageCatalog = MESSAGES,
+): StuckReason[] {
+  const reasons: StuckReason[] = [];
+  const n = steps.length;
+  if (n === 0) return reasons;
+  const last = steps[n - 1];
+
+  if (n >= 3) {
+    const [a, b, c] = steps.slice(-3);
+    const avg =
+      (distance(a.concept, b.concept) +
+        distance(b.concept, c.concept) +
+        distance(a.concept, c.concept)) /
+      3;
+    if (avg < SIMILARITY_THRESHOLD) {
+      const window = [a.step, b.step, c.step];
+      reasons.push({
+        type: "similarity",
+        steps: window,
+        message: formatMessage(messages, "stuck.similarity", {
+          steps: span(window),
+          average: avg.toFixed(2),
+        }),
+      });
+    }
+  }
+
+  // A→B→A→B: every other step lands on the same pole, the poles differ
+  let oscillating = false;
+  if (n >= 4) {
+    const [a, b, c, d] = steps.slice(-4);
+    oscillating =
+      distance(a.concept, c.concept) <= MATCH_THRESHOLD &&
+      distance(b.concept, d.concept) <= MATCH_THRESHOLD &&
+      distance(c.concept, d.concept) > MATCH_THRESHOLD;
+    if (oscillating) {
+      reasons.push({
+        type: "oscillation",
+        steps: [a.step, b.step, c.step, d.step],
+        message: formatMessage(messages, "stuck.oscillation", {
+          a: c.concept,
+          aSteps: `${a.step}, ${c.step}`,
+          b: d.concept,
+          bSteps: `${b.step}, ${d.step}`,
+        }),
+      });
+    }
+  }
+
+  // Back at an earlier concept (not the one just left) without isReturn
+  if (!last.isReturn && !oscillating) {
+    let match: { step: StuckStep; d: number } | null = null;
+    for (const s of steps.slice(0, -2)) {
+      const d =
+        normalize(s.concept) === normalize(last.concept)
+          ? 0
+          : distance(s.concept, last.concept);
+      if (d <= RETURN_THRESHOLD && (!match || d < match.d)) {
+        match = { step: s, d };
+      }
+    }
+    if (match) {
+      reasons.push({
+        type: "unannounced-return",
+        steps: [match.step.step, last.step],
+        message: formatMessage(messages, "stuck.unannounced-return", {
+          step: last.step,
+          earlier: match.step.step,
+          concept: match.step.concept,
+        }),
+      });
+    }
+  }
+
+  // Four measured leaps in a row, each shorter than the one before
+  if (n >= 4) {
+    const recent = steps.slice(-4);
+    const distances = recent.map((s) => s.distance);
+    if (
+      distances.every((d): d is number => d !== null) &&
+      distances.every((d, i) => i === 0 || d < distances[i - 1]) &&
+      distances[0] - distances[3] >= SHRINK_DROP
+    ) {
+      const window = recent.map((s) => s.step);
+      reasons.push({
+        type: "shrinking",
+        steps: window,
+        message: formatMessage(messages, "stuck.shrinking", {
+          steps: span(window),
+          distances: distances.map((d) => d.toFixed(2)).join(" → "),
+        }),
+      });
+    }
+  }
+
+  return reasons;
+}
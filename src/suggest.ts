@@ -0,0 +1,101 @@
+import { calibrate } from "./calibration.js";
+import { LEXICON } from "./lexicon.js";
+import type { Calibration } from "./lib.js";
+import type { Vocabulary } from "./vocabulary.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Suggestion {
+  concept: string;
+  domain: string;
+  predictedDistance: number; // from the current concept
+  nearestDistance: number; // to the closest of the last three steps
+  calibration: Calibration; // predictedDistance vs the requested chaosLevel
+}
+
+// ============================================================================
+// SUGGESTION ENGINE
+// ============================================================================
+
+// A candidate must be at least this far from each of the last three steps
+export const FAR_ENOUGH = 0.6;
+
+// Domains count as already explored when a path concept is this close to one
+// of their concepts
+const TOUCHED = 0.3;
+
+const MAX_SUGGESTIONS = 3;
+
+const normalize = (concept: string): string =>
+  concept.toLowerCase().trim().replace(/\s+/g, " ");
+
+/**
+ * Propose concrete next concepts for a stuck path: lexicon concepts (plus the
+ * first word of each synonym cluster) that are far from the last three steps,
+ * one per unexplored domain, closest to the requested chaos first.
+ * `rotation` shifts ties between domains so repeated calls vary.
+ */
+export function suggestConcepts(
+  path: string[],
+  chaos: number,
+  vocabulary: Vocabulary,
+  distance: (a: string, b: string) => number,
+  rotation = 0,
+): Suggestion[] {
+  const recent = path.slice(-3);
+  if (recent.length === 0) return [];
+  const current = recent[recent.length - 1];
+  const visited = new Set(path.map(normalize));
+
+  const pool: Record<string, string[]> = {
+    ...LEXICON,
+    vocabulary: vocabulary.clusters.map((c) => c[0]),
+  };
+  const domains = Object.keys(pool);
+
+  const best: Array<Suggestion & { order: number }> = [];
+  domains.forEach((domain, i) => {
+    const concepts = pool[domain];
+    const touched = path.some((p) =>
+      concepts.some((c) => distance(p, c) <= TOUCHED),
+    );
+    if (touched) return;
+
+    let pick: Suggestion | null = null;
+    const offset = rotation % Math.max(1, concepts.length);
+    for (let j = 0; j < concepts.length; j++) {
+      const concept = concepts[(j + offset) % concepts.length];
+      if (visited.has(normalize(concept))) continue;
+      const nearest = Math.min(...recent.map((r) => distance(r, concept)));
+      if (nearest < FAR_ENOUGH) continue;
+      const predicted = distance(current, concept);
+      if (
+        !pick ||
+        Math.abs(predicted - chaos) < Math.abs(pick.predictedDistance - chaos)
+      ) {
+        pick = {
+          concept,
+          domain,
+          predictedDistance: predicted,
+          nearestDistance: nearest,
+          calibration: calibrate(predicted, chaos),
+        };
+      }
+    }
+    if (pick) {
+      const order =
+        (i - (rotation % domains.length) + domains.length) % domains.length;
+      best.push({ ...pick, order });
+    }
+  });
+
+  // Closest to the requested chaos first (in 0.1 steps), rotation breaks ties
+  const miss = (s: Suggestion) =>
+    Math.round(Math.abs(s.predictedDistance - chaos) * 10);
+  return best
+    .sort((a, b) => miss(a) - miss(b) || a.order - b.order)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ order: _, ...s }) => s);
+}
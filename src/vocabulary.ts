@@ -0,0 +1,235 @@
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import {
+  detectLanguage,
+  LANGUAGES,
+  parseLanguage,
+  segmentWords,
+  type Language,
+  type LanguageSetting,
+} from "./language.js";
+
+// ============================================================================
+// BUILT-INS
+// ============================================================================
+
+// Synonym clusters for surface-level semantic detection
+export const CLUSTERS: string[][] = [
+  ["grief", "mourning", "sorrow", "loss", "sadness"],
+  ["happy", "joy", "elation", "bliss", "cheerful"],
+  ["anger", "rage", "fury", "wrath", "outrage"],
+  ["fear", "terror", "dread", "anxiety", "panic"],
+  [
+    "code",
+    "programming",
+    "software",
+    "development",
+    "system",
+    "application",
+    "app",
+  ],
+  ["money", "currency", "cash", "funds", "wealth"],
+  ["start", "begin", "commence", "initiate", "launch"],
+  ["end", "finish", "conclude", "terminate", "complete"],
+  ["think", "ponder", "contemplate", "reflect", "consider"],
+  ["death", "dying", "demise", "mortality", "passing"],
+  ["love", "affection", "devotion", "adoration", "passion"],
+  ["hate", "loathe", "detest", "despise", "abhor"],
+];
+
+// ============================================================================
+// VOCABULARY
+// ============================================================================
+
+export interface VocabularyOptions {
+  language?: LanguageSetting; // default auto
+  builtinStopWords?: boolean; // the language's own list, default true
+}
+
+/**
+ * Synonym clusters, stop words and the language that turn text into the
+ * words the distance metrics compare. Clusters are matched on single words,
+ * in both original and stemmed form, stemmed by the language being read:
+ * another language's stem of a cluster word never matches.
+ */
+export class Vocabulary {
+  private clusterMaps = new Map<Language, Map<string, number>>();
+  private stopWords: Set<string>;
+  readonly language: LanguageSetting;
+  private builtinStopWords: boolean;
+
+  constructor(
+    readonly clusters: string[][],
+    stopWords: Iterable<string>, // on top of the language's own
+    options: VocabularyOptions = {},
+  ) {
+    this.stopWords = new Set(stopWords);
+    this.language = options.language ?? "auto";
+    this.builtinStopWords = options.builtinStopWords ?? true;
+  }
+
+  // Cluster index by word and by its stem in one language, built on first use
+  private clusterMap(language: Language): Map<string, number> {
+    let map = this.clusterMaps.get(language);
+    if (!map) {
+      const { stem } = LANGUAGES[language];
+      map = new Map();
+      for (const [i, cluster] of this.clusters.entries()) {
+        for (const w of cluster) {
+          map.set(w, i);
+          map.set(stem(w), i);
+        }
+      }
+      this.clusterMaps.set(language, map);
+    }
+    return map;
+  }
+
+  /**
+   * The language to read texts in. Texts compared with each other are
+   * detected together, so both sides are stemmed alike.
+   */
+  languageFor(...texts: string[]): Language {
+    return this.language === "auto"
+      ? detectLanguage(texts.join(" "))
+      : this.language;
+  }
+
+  isStopWord(word: string, language: Language): boolean {
+    return (
+      this.stopWords.has(word) ||
+      (this.builtinStopWords && LANGUAGES[language].stopWords.has(word))
+    );
+  }
+
+  /** Meaningful words of a text, unstemmed: no stop words, nothing too short */
+  words(text: string, language: Language): string[] {
+    const { minWordLength } = LANGUAGES[language];
+    return segmentWords(text, language).filter(
+      (w) => w.length >= minWordLength && !this.isStopWord(w, language),
+    );
+  }
+
+  /** Stemmed meaningful words of a text */
+  contentWords(text: string, language: Language): string[] {
+    const { stem } = LANGUAGES[language];
+    return this.words(text, language).map(stem);
+  }
+
+  /**
+   * True when any word of one set shares a cluster with any word of the
+   * other, both read (and stemmed) in `language`
+   */
+  sharesCluster(
+    words1: Iterable<string>,
+    words2: Iterable<string>,
+    language: Language,
+  ): boolean {
+    const clusterMap = this.clusterMap(language);
+    const clusters1 = new Set<number>();
+    for (const w of words1) {
+      const c = clusterMap.get(w);
+      if (c !== undefined) clusters1.add(c);
+    }
+    for (const w of words2) {
+      const c = clusterMap.get(w);
+      if (c !== undefined && clusters1.has(c)) return true;
+    }
+    return false;
+  }
+
+  /** A copy with extra clusters appended (e.g. ones added for one session) */
+  extend(clusters: string[][]): Vocabulary {
+    if (clusters.length === 0) return this;
+    return new Vocabulary([...this.clusters, ...clusters], this.stopWords, {
+      language: this.language,
+      builtinStopWords: this.builtinStopWords,
+    });
+  }
+
+  /** A copy reading every text in one language, or detecting it */
+  withLanguage(language: LanguageSetting): Vocabulary {
+    return new Vocabulary(this.clusters, this.stopWords, {
+      language,
+      builtinStopWords: this.builtinStopWords,
+    });
+  }
+}
+
+export const BUILTIN_VOCABULARY = new Vocabulary(CLUSTERS, []);
+
+/**
+ * Lowercase, trim and dedupe a cluster; clusters need at least two words.
+ * Text is matched against clusters one word at a time, so an entry with a
+ * space in it ("machine learning") could never match and is refused.
+ */
+export function normalizeCluster(words: string[]): string[] {
+  const cluster = [
+    ...new Set(words.map((w) => w.toLowerCase().trim()).filter(Boolean)),
+  ];
+  const phrase = cluster.find((w) => /\s/.test(w));
+  if (phrase !== undefined) {
+    throw new Error(
+      `Cluster entries must be single words, not "${phrase}": ${words.join(", ")}`,
+    );
+  }
+  if (cluster.length < 2) {
+    throw new Error(`A cluster needs at least two words: ${words.join(", ")}`);
+  }
+  return cluster;
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+/**
+ * Load clusters, stop words and the language from a JSON or YAML file:
+ *
+ *   mode: merge          # merge (default) keeps the built-ins, replace drops them
+ *   language: de         # auto (default) detects it per comparison
+ *   clusters:
+ *     - [kubernetes, k8s, cluster, orchestration]
+ *   stopWords: [please, maybe]
+ */
+export function loadVocabulary(file: string): Vocabulary {
+  const text = readFileSync(file, "utf8");
+  const ext = extname(file).toLowerCase();
+  const raw =
+    ext === ".yaml" || ext === ".yml" ? parseYaml(text) : JSON.parse(text);
+
+  if (!raw || typeof raw !== "object") {
+    throw new Error(`Invalid vocabulary file ${file}: expected an object`);
+  }
+  const mode = raw.mode ?? "merge";
+  if (mode !== "merge" && mode !== "replace") {
+    throw new Error(`Invalid vocabulary mode "${mode}" in ${file}`);
+  }
+  if (raw.language !== undefined && typeof raw.language !== "string") {
+    throw new Error(`Invalid language in ${file}: expected a language code`);
+  }
+  const language = parseLanguage(raw.language ?? "auto");
+  const clusters: unknown = raw.clusters ?? [];
+  const stopWords: unknown = raw.stopWords ?? [];
+  if (
+    !Array.isArray(clusters) ||
+    !clusters.every(
+      (c) => Array.isArray(c) && c.every((w) => typeof w === "string"),
+    )
+  ) {
+    throw new Error(`Invalid clusters in ${file}: expected lists of words`);
+  }
+  if (
+    !Array.isArray(stopWords) ||
+    !stopWords.every((w) => typeof w === "string")
+  ) {
+    throw new Error(`Invalid stopWords in ${file}: expected a list of words`);
+  }
+
+  const custom = (clusters as string[][]).map(normalizeCluster);
+  const words = (stopWords as string[]).map((w) => w.toLowerCase().trim());
+  return mode === "replace"
+    ? new Vocabulary(custom, words, { language, builtinStopWords: false })
+    : new Vocabulary([...CLUSTERS, ...custom], words, { language });
+}
@@ -0,0 +1,811 @@
+/**
+ * UNIT TEST: Drives the built server and modules directly, without a
+ * transport, and asserts on what they return.
+ * Tests: session lifecycle on failed calls and read-only tools, language
+ * detection, clusters across languages and single-word entries, unannounced
+ * returns, stuck suggestions with a stub metric, scoring profiles and decay,
+ * graph labels, step order in stats, dreamcheck schema versions, log levels,
+ * redaction and store failures, session store round-trips, snapshot
+ * migrations, corrupt, misshapen and newer store files, recording headers
+ * and replay settings
+ */
+
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { createHash } from "node:crypto";
+import {
+  existsSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AssociativeDreamingServer } from "./dist/lib.js";
+import { LexicalMetric } from "./dist/distance.js";
+import { detectLanguage } from "./dist/language.js";
+import { JsonLinesLogger, SILENT_LOGGER } from "./dist/logger.js";
+import {
+  JsonLinesRecorder,
+  loadRecording,
+  parseRecording,
+  RECORDING_VERSION,
+} from "./dist/recording.js";
+import { CHECK_RESULT_VERSION, CheckResultSchema } from "./dist/schemas.js";
+import {
+  decayFactor,
+  FRESH_MS,
+  loadScoringProfile,
+  PRESETS,
+  scoringProfile,
+} from "./dist/scoring.js";
+import {
+  JsonFileStore,
+  migrateSnapshot,
+  SNAPSHOT_VERSION,
+} from "./dist/store.js";
+import {
+  BUILTIN_VOCABULARY,
+  loadVocabulary,
+  normalizeCluster,
+  Vocabulary,
+} from "./dist/vocabulary.js";
+
+// A server that persists, records and logs nothing unless told otherwise
+const dreamer = (options = {}) =>
+  new AssociativeDreamingServer({
+    store: null,
+    recorder: null,
+    logger: SILENT_LOGGER,
+    ...options,
+  });
+
+// Weights are summed in floating point
+const assertNear = (actual, expected) =>
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} ≉ ${expected}`);
+
+const sessionIds = (server) => server.listSessions().map((s) => s.sessionId);
+
+const tests = [];
+const test = (name, run) => tests.push({ name, run });
+
+// =========================================================================
+// SESSIONS
+// =========================================================================
+
+test("A rejected call doesn't create its session", () => {
+  const server = dreamer();
+  assert.throws(
+    () =>
+      server.dream({
+        sessionId: "nope",
+        concept: "anything",
+        isReturn: true,
+        returnsTo: "zzz",
+      }),
+    /zzz/,
+  );
+  assert.deepEqual(sessionIds(server), []);
+
+  server.dream({ sessionId: "nope", concept: "anything" });
+  assert.deepEqual(sessionIds(server), ["nope"]);
+});
+
+test("Export and stats never create a session", () => {
+  const server = dreamer();
+  assert.throws(() => server.exportDream({}), /No dream session yet/);
+  assert.throws(() => server.dreamStats({}), /No dream session yet/);
+  assert.throws(
+    () => server.exportDream({ sessionId: "ghost" }),
+    /Unknown session "ghost"/,
+  );
+  assert.deepEqual(sessionIds(server), []);
+
+  // A closed default session is still the one they read
+  server.dream({ concept: "kelp forest" });
+  server.synthesize({ insight: "Forests can float", drawsOn: [1] });
+  assert.equal(server.exportDream({}).structuredContent.sessionId, "default");
+  assert.equal(server.dreamStats({}).structuredContent.sessionId, "default");
+  assert.deepEqual(sessionIds(server), ["default"]);
+});
+
+test("Listing branches reads a session without creating one", () => {
+  const server = dreamer();
+  assert.throws(
+    () => server.manageBranches({ sessionId: "ghost", action: "list" }),
+    /Unknown session "ghost"/,
+  );
+  assert.deepEqual(sessionIds(server), []);
+
+  server.dream({ concept: "kelp forest" });
+  server.synthesize({ insight: "Forests can float", drawsOn: [1] });
+  const listed = server.manageBranches({ action: "list" }).structuredContent;
+  assert.equal(listed.sessionId, "default");
+  assert.deepEqual(
+    listed.branches.map((b) => b.branchId),
+    ["main"],
+  );
+  assert.deepEqual(sessionIds(server), ["default"]);
+});
+
+test("Listing vocabulary reads a session without creating one", () => {
+  const server = dreamer();
+  assert.throws(
+    () => server.manageVocabulary({ sessionId: "ghost", action: "list" }),
+    /Unknown session "ghost"/,
+  );
+  assert.deepEqual(sessionIds(server), []);
+
+  server.dream({ concept: "kelp forest" });
+  server.manageVocabulary({ action: "add", clusters: [["kelp", "seaweed"]] });
+  server.synthesize({ insight: "Forests can float", drawsOn: [1] });
+  const listed = server.manageVocabulary({ action: "list" }).structuredContent;
+  assert.equal(listed.sessionId, "default");
+  assert.deepEqual(listed.sessionClusters, [["kelp", "seaweed"]]);
+  assert.deepEqual(sessionIds(server), ["default"]);
+});
+
+// =========================================================================
+// LANGUAGES
+// =========================================================================
+
+const lexical = new LexicalMetric();
+
+test("English words don't join a cluster through another language's stem", () => {
+  // German and Romance stemmers cut "code" to "cod" and "hate" to "hat"
+  for (const [a, b] of [
+    ["cod", "software"],
+    ["hat", "loathe"],
+  ]) {
+    assert.equal(BUILTIN_VOCABULARY.languageFor(a, b), "en");
+    assert.ok(lexical.distance(a, b, BUILTIN_VOCABULARY) > 0.5, `${a} ~ ${b}`);
+  }
+  assert.equal(
+    lexical.distance("griefs", "mourning", BUILTIN_VOCABULARY),
+    0.15,
+  );
+});
+
+test("One foreign stop word doesn't switch the language", () => {
+  assert.equal(detectLanguage("servers die quietly overnight"), "en");
+  assert.equal(detectLanguage("los angeles deploys fail"), "en");
+  assert.equal(detectLanguage("die Server in der Nacht"), "de");
+  assert.equal(detectLanguage("die große Nacht"), "de");
+  assert.equal(detectLanguage("the servers die and the logs stop"), "en");
+});
+
+test("Cluster entries must be single words", () => {
+  assert.throws(
+    () => normalizeCluster(["ML", "Machine learning"]),
+    /single words, not "machine learning"/,
+  );
+  const server = dreamer();
+  assert.throws(
+    () =>
+      server.manageVocabulary({
+        sessionId: "ml",
+        action: "add",
+        clusters: [["ml", "deep  learning"]],
+      }),
+    /"deep {2}learning"/,
+  );
+  assert.deepEqual(sessionIds(server), []);
+  withFile(
+    "vocabulary.yaml",
+    "clusters:\n  - [ml, machine learning]\n",
+    (file) => assert.throws(() => loadVocabulary(file), /"machine learning"/),
+  );
+});
+
+test("Clusters match inflected words in the language being read", () => {
+  const vocabulary = new Vocabulary([["trauer", "kummer"]], []);
+  const [a, b] = ["die Trauern der Stadt", "der Kummer in der Stadt"];
+  assert.equal(vocabulary.languageFor(a, b), "de");
+  assert.equal(lexical.distance(a, b, vocabulary), 0.15);
+});
+
+// =========================================================================
+// STUCK DETECTION
+// =========================================================================
+
+const stuckTypes = (result) =>
+  result.structuredContent.stuckReasons.map((r) => r.type);
+
+test("Drifting within a synonym cluster isn't an unannounced return", () => {
+  const server = dreamer();
+  for (const concept of [
+    "software architecture",
+    "tidal marsh",
+    "volcano lava",
+  ]) {
+    server.dream({ concept, chaosLevel: 0.8 });
+  }
+  const synonym = server.dream({
+    concept: "application architecture",
+    chaosLevel: 0.8,
+  });
+  assert.ok(!stuckTypes(synonym).includes("unannounced-return"));
+
+  const back = server.dream({ concept: "Software  Architecture" });
+  assert.ok(stuckTypes(back).includes("unannounced-return"));
+});
+
+// =========================================================================
+// SUGGESTIONS
+// =========================================================================
+
+// Cosine distance over a fixed embedding table. Concepts it has no vector
+// for can't be judged, so the server measures them lexically instead.
+function stubEmbeddings(table) {
+  const norm = (v) => Math.hypot(...v);
+  return {
+    name: "stub",
+    distance(a, b) {
+      const v1 = table[a];
+      const v2 = table[b];
+      if (!v1 || !v2) return null;
+      const dot = v1.reduce((sum, x, i) => sum + x * v2[i], 0);
+      return Math.min(1, Math.max(0, 1 - dot / (norm(v1) * norm(v2))));
+    },
+  };
+}
+
+const CIRCLING = ["cache miss", "cache eviction", "cache warmup"];
+
+test("Stuck suggestions are measured with the configured metric", () => {
+  const server = dreamer({
+    metric: stubEmbeddings({
+      "cache miss": [1, 0, 0],
+      "cache eviction": [0.99, 0.02, 0],
+      "cache warmup": [0.98, 0.03, 0],
+      "jazz improvisation": [0.3, 1, 0], // far: a candidate
+      "mycelium networks": [1, 0.05, 0], // close: biology is explored
+    }),
+  });
+  const results = CIRCLING.map((concept) =>
+    server.dream({ sessionId: "stub", concept, chaosLevel: 0.7 }),
+  );
+  const last = results.at(-1).structuredContent;
+  assert.equal(last.surfaceMetric, "stub");
+  assert.equal(last.stuck, true);
+
+  const jazz = last.suggestions.find((s) => s.concept === "jazz improvisation");
+  assert.ok(jazz, "jazz improvisation is suggested");
+  const expected = stubEmbeddings({
+    a: [0.98, 0.03, 0],
+    b: [0.3, 1, 0],
+  }).distance("a", "b");
+  assert.equal(jazz.predictedDistance, expected);
+  assert.ok(last.suggestions.every((s) => s.domain !== "biology"));
+  // Concepts without a vector were still measured, lexically
+  assert.ok(last.suggestions.length > 1);
+});
+
+test("A canned prompt stands in when nothing is far enough", () => {
+  const near = { name: "stub", distance: () => 0.1 };
+  const server = dreamer({ metric: near, seed: "prompts" });
+  const results = CIRCLING.map((concept) => server.dream({ concept }));
+  const last = results.at(-1);
+  assert.equal(last.structuredContent.stuck, true);
+  assert.deepEqual(last.structuredContent.suggestions, []);
+  assert.match(last.content[0].text, /→ (Try|What|If)/);
+});
+
+// =========================================================================
+// SCORING PROFILES
+// =========================================================================
+
+// A file in a fresh directory, removed once `run` is done
+function withFile(name, content, run) {
+  const dir = mkdtempSync(join(tmpdir(), "dream-file-"));
+  try {
+    const file = join(dir, name);
+    writeFileSync(file, content);
+    return run(file);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+const STUCK_CHECK = { topic: "flaky deploy", attempts: 2, sentiment: "stuck" };
+
+test("Presets weigh the same evidence differently", () => {
+  const verdict = (preset) =>
+    dreamer({ scoring: scoringProfile(preset) }).check(STUCK_CHECK)
+      .structuredContent;
+
+  const normal = verdict("default");
+  assert.equal(normal.profile, "default");
+  assert.equal(normal.threshold, 0.35);
+  assert.deepEqual(
+    normal.contributions.map((c) => [c.signal, c.weight]),
+    [
+      ["attemptsSome", 0.15],
+      ["sentimentStuck", 0.35],
+    ],
+  );
+  assert.equal(normal.shouldDream, true);
+
+  const cautious = verdict("cautious");
+  assert.equal(cautious.profile, "cautious");
+  assert.equal(cautious.threshold, 0.5);
+  assertNear(cautious.confidence, 0.45);
+  assert.equal(cautious.shouldDream, false);
+  assert.equal(cautious.suggestedChaos, null);
+});
+
+test("Evidence fades with its age, but not in its first minute", () => {
+  assert.equal(decayFactor(0, 30), 1);
+  assert.equal(decayFactor(FRESH_MS - 1, 30), 1);
+  assert.equal(decayFactor(30 * 60_000, 30), 0.5);
+  assert.equal(decayFactor(60 * 60_000, 30), 0.25);
+  assert.equal(decayFactor(60 * 60_000, null), 1);
+});
+
+test("Fresh evidence at the threshold says YES", () => {
+  let now = Date.parse("2026-01-05T10:00:00.000Z");
+  const server = dreamer({ clock: () => now });
+  server.dream({ concept: "moth to a flame" });
+
+  // frustrated (0.25) + dream session active (0.10) = the 0.35 threshold
+  now += 50;
+  const fresh = server.check({ topic: "css grid", sentiment: "frustrated" });
+  assert.equal(fresh.structuredContent.shouldDream, true);
+  assert.match(fresh.content[0].text, /YES \(35%\)/);
+
+  now += 10 * 60_000;
+  const stale = server.check({ topic: "flexbox", sentiment: "frustrated" });
+  assert.equal(stale.structuredContent.shouldDream, false);
+});
+
+test("Float noise in the sum doesn't miss the threshold", () => {
+  // cautious: attemptsSome 0.1 + sentimentStuck 0.35 sums to 0.4499…
+  const scoring = { ...PRESETS.cautious, threshold: 0.45 };
+  const result = dreamer({ scoring }).check(STUCK_CHECK).structuredContent;
+  assert.notEqual(result.confidence, 0.45);
+  assert.equal(result.shouldDream, true);
+});
+
+test("A profile file overrides its preset", () =>
+  withFile(
+    "profile.yaml",
+    [
+      "name: support-agent",
+      "preset: cautious",
+      "threshold: 0.4",
+      "weights:",
+      "  sentimentStuck: 0.5",
+    ].join("\n"),
+    (file) => {
+      const profile = loadScoringProfile(file);
+      assert.equal(profile.name, "support-agent");
+      assert.equal(profile.threshold, 0.4);
+      assert.equal(profile.weights.sentimentStuck, 0.5);
+      assert.equal(
+        profile.weights.attemptsSome,
+        PRESETS.cautious.weights.attemptsSome,
+      );
+
+      const result = dreamer({ scoring: profile }).check(STUCK_CHECK);
+      assert.equal(result.structuredContent.profile, "support-agent");
+      assertNear(result.structuredContent.confidence, 0.6);
+      assert.equal(result.structuredContent.shouldDream, true);
+    },
+  ));
+
+test("Invalid profile files are rejected", () => {
+  for (const [content, error] of [
+    ["[1, 2]", /expected an object/],
+    ['{"preset": "reckless"}', /Unknown scoring preset "reckless"/],
+    ['{"threshold": 0}', /Invalid threshold/],
+    ['{"halfLifeMinutes": -5}', /Invalid halfLifeMinutes/],
+    ['{"weights": []}', /Invalid weights/],
+    ['{"weights": {"moonPhase": 0.2}}', /Unknown signal "moonPhase"/],
+    ['{"weights": {"attemptsOne": -1}}', /Invalid weight for "attemptsOne"/],
+  ]) {
+    withFile("profile.json", content, (file) =>
+      assert.throws(() => loadScoringProfile(file), error),
+    );
+  }
+  assert.throws(() => scoringProfile("./no-such-profile.yaml"), /ENOENT/);
+});
+
+// =========================================================================
+// EXPORT
+// =========================================================================
+
+test("Graph labels escape backslashes, quotes and line breaks", () => {
+  const server = dreamer();
+  server.dream({ concept: "C:\\temp\\" });
+  server.dream({ concept: 'a "quoted"\nsecond line' });
+  const graph = (format) =>
+    server.exportDream({ format }).structuredContent.document;
+
+  const dot = graph("dot").split("\n");
+  assert.ok(dot.includes('  n1 [label="1. C:\\\\temp\\\\"];'), dot[3]);
+  assert.ok(
+    dot.includes('  n2 [label="2. a \\"quoted\\"\\nsecond line"];'),
+    dot[4],
+  );
+
+  const mermaid = graph("mermaid").split("\n");
+  assert.ok(mermaid.includes('  n1["1. C:\\temp\\"]'), mermaid[1]);
+  assert.ok(mermaid.includes(`  n2["2. a 'quoted' second line"]`), mermaid[2]);
+});
+
+// =========================================================================
+// STATS
+// =========================================================================
+
+test("Steps taken in the same millisecond are counted in step order", () => {
+  // Distance by destination, so the order steps are read in sets the trend
+  const leaps = { b: 0.2, c: 0.4, d: 0.6 };
+  const server = dreamer({
+    clock: () => Date.parse("2026-01-05T10:00:00.000Z"),
+    metric: { name: "stub", distance: (_, to) => leaps[to] ?? 0.5 },
+  });
+  server.dream({ concept: "a" });
+  server.dream({ concept: "b" });
+  server.dream({ concept: "c", branchFrom: 1 });
+  server.manageBranches({ action: "switch", branchId: "main" });
+  server.dream({ concept: "d" });
+
+  const { distance } = server.dreamStats({}).structuredContent;
+  assertNear(distance.trend, 0.2);
+});
+
+// =========================================================================
+// SCHEMAS
+// =========================================================================
+
+test("dreamcheck results are version 2; version 1 ones are rejected", () => {
+  const result = dreamer().check(STUCK_CHECK).structuredContent;
+  assert.equal(result.schemaVersion, CHECK_RESULT_VERSION);
+  assert.equal(CHECK_RESULT_VERSION, 2);
+  assert.ok(CheckResultSchema.safeParse(result).success);
+
+  // What version 1 produced: no adaptive flag, no per-signal adjustment
+  const { adaptive, ...v1 } = result;
+  v1.schemaVersion = 1;
+  v1.contributions = result.contributions.map(
+    ({ adjustment, ...rest }) => rest,
+  );
+  const issues = CheckResultSchema.safeParse(v1).error.issues.map((i) =>
+    i.path.join("."),
+  );
+  assert.ok(issues.includes("schemaVersion"));
+  assert.ok(issues.includes("adaptive"));
+  assert.ok(issues.includes("contributions.0.adjustment"));
+});
+
+// =========================================================================
+// LOGGING
+// =========================================================================
+
+// Log lines a server wrote to a file at `level`, as parsed objects
+function logLines(level, run, options = {}) {
+  const dir = mkdtempSync(join(tmpdir(), "dream-log-"));
+  try {
+    const file = join(dir, "dream.log");
+    run(new JsonLinesLogger({ level, file, ...options }), file);
+    return existsSync(file)
+      ? readFileSync(file, "utf8")
+          .trim()
+          .split("\n")
+          .map((line) => JSON.parse(line))
+      : [];
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// Run with environment variables set (or unset, for undefined), then restore
+function withEnv(vars, run) {
+  const saved = Object.fromEntries(
+    Object.keys(vars).map((k) => [k, process.env[k]]),
+  );
+  const apply = (values) => {
+    for (const [k, v] of Object.entries(values)) {
+      if (v === undefined) delete process.env[k];
+      else process.env[k] = v;
+    }
+  };
+  apply(vars);
+  try {
+    return run();
+  } finally {
+    apply(saved);
+  }
+}
+
+const FAILING_RETURN = {
+  sessionId: "logged",
+  concept: "lighthouse",
+  isReturn: true,
+  returnsTo: "foghorn",
+};
+
+test("Log lines are stamped with the server's clock", () => {
+  const now = Date.parse("2026-01-05T10:00:00.000Z");
+  // The server's own logger, configured from the environment
+  const lines = logLines("info", (_, file) =>
+    withEnv({ DISABLE_DREAM_LOGGING: undefined, DREAM_LOG_FILE: file }, () =>
+      dreamer({ logger: undefined, clock: () => now }).dream({
+        concept: "lighthouse",
+      }),
+    ),
+  );
+  assert.deepEqual(
+    lines.map((l) => [l.ts, l.level, l.event]),
+    [["2026-01-05T10:00:00.000Z", "info", "dream"]],
+  );
+});
+
+test("Store write failures are logged at error", () => {
+  const failing = {
+    load: () => null,
+    save: () => {
+      throw new Error("disk full");
+    },
+  };
+  const lines = logLines("error", (logger) =>
+    dreamer({ logger, store: failing }).dream({ concept: "harbor" }),
+  );
+  assert.deepEqual(
+    lines.map((l) => [l.level, l.event, l.error]),
+    [["error", "persist_failed", "disk full"]],
+  );
+});
+
+test("Failed calls log at error, details only at debug", () => {
+  const run = (logger) => {
+    const server = dreamer({ logger });
+    server.dream({ sessionId: "logged", concept: "harbor" });
+    server.check({ sessionId: "logged", topic: "fog" });
+    assert.throws(() => server.dream(FAILING_RETURN));
+  };
+
+  const info = logLines("info", run);
+  assert.deepEqual(
+    info.map((l) => `${l.level} ${l.event}`),
+    ["info dream", "info dreamcheck", "error call_failed"],
+  );
+  assert.equal(info[2].tool, "dream");
+  assert.equal(info[2].sessionId, "logged");
+  assert.match(info[2].error, /foghorn/);
+
+  const debug = logLines("debug", run);
+  assert.deepEqual(
+    debug.map((l) => `${l.level} ${l.event}`),
+    [
+      "info dream",
+      "debug dream_detail",
+      "info dreamcheck",
+      "debug dreamcheck_detail",
+      "error call_failed",
+      "debug call_failed_input",
+    ],
+  );
+  assert.equal(debug[5].input.returnsTo, "foghorn");
+
+  assert.deepEqual(
+    logLines("error", run).map((l) => l.event),
+    ["call_failed"],
+  );
+});
+
+test("Redaction is keyed, so guessing words doesn't reveal them", () => {
+  const redacted = (options) =>
+    logLines(
+      "debug",
+      (logger) =>
+        assert.throws(() => dreamer({ logger }).dream(FAILING_RETURN)),
+      { redact: true, ...options },
+    );
+  const unsalted = createHash("sha256").update("foghorn").digest("hex");
+
+  const [failed, details] = redacted();
+  assert.match(failed.error, /^hmac:[0-9a-f]{12}$/);
+  assert.match(details.input.returnsTo, /^hmac:[0-9a-f]{12}$/);
+  assert.notEqual(details.input.returnsTo, `hmac:${unsalted.slice(0, 12)}`);
+  assert.notEqual(details.input.returnsTo, redacted()[1].input.returnsTo);
+
+  // A fixed key keeps hashes comparable across processes
+  const keyed = () => redacted({ redactKey: "team-key" })[1].input.returnsTo;
+  assert.equal(keyed(), keyed());
+});
+
+// =========================================================================
+// PERSISTENCE
+// =========================================================================
+
+// A store file in a fresh directory, removed once `run` is done
+function withStoreFile(run) {
+  const dir = mkdtempSync(join(tmpdir(), "dream-store-"));
+  try {
+    return run(join(dir, "sessions.json"), dir);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test("Sessions survive a save and load", () =>
+  withStoreFile((file) => {
+    const first = dreamer({ store: new JsonFileStore(file) });
+    first.dream({ sessionId: "tides", concept: "spring tides" });
+    first.dream({ sessionId: "tides", concept: "moon gravity" });
+    first.check({ sessionId: "tides", topic: "flaky test", attempts: 2 });
+
+    const second = dreamer({ store: new JsonFileStore(file) });
+    assert.deepEqual(second.listSessions(), first.listSessions());
+    assert.deepEqual(second.sessionSteps("tides"), first.sessionSteps("tides"));
+    const next = second.dream({ sessionId: "tides", concept: "salt marsh" });
+    assert.equal(next.structuredContent.step, 3);
+  }));
+
+// The oldest format: a flat path with distances and counters
+const V1_SNAPSHOT = {
+  version: 1,
+  savedAt: "2026-01-05T10:00:00.000Z",
+  defaultSessionId: "default",
+  sessions: [
+    {
+      id: "default",
+      status: "open",
+      createdAt: Date.parse("2026-01-05T09:00:00.000Z"),
+      path: ["slow query", "traffic jam", "river delta"],
+      distances: [0.9, 0.8],
+      stuckCount: 0,
+      topicCounts: [["slow query", 2]],
+      errorCounts: [["timeout", 1]],
+      checkCount: 2,
+    },
+  ],
+};
+
+test("A v1 snapshot migrates to the current version", () => {
+  const snapshot = migrateSnapshot(structuredClone(V1_SNAPSHOT));
+  assert.equal(snapshot.version, SNAPSHOT_VERSION);
+  const [session] = snapshot.sessions;
+  const main = session.branches.find((b) => b.id === session.activeBranch);
+  assert.deepEqual(
+    main.steps.map((s) => [s.concept, s.distance]),
+    [
+      ["slow query", null],
+      ["traffic jam", 0.9],
+      ["river delta", 0.8],
+    ],
+  );
+  assert.equal(session.seed, null);
+  assert.deepEqual(session.verdicts, []);
+
+  withStoreFile((file) => {
+    writeFileSync(file, JSON.stringify(V1_SNAPSHOT));
+    const server = dreamer({ store: new JsonFileStore(file) });
+    assert.equal(server.sessionSteps("default").steps.length, 3);
+    const next = server.dream({ concept: "sediment" });
+    assert.equal(next.structuredContent.step, 4);
+  });
+});
+
+test("A snapshot newer than the server is refused", () => {
+  assert.throws(
+    () => migrateSnapshot({ ...V1_SNAPSHOT, version: SNAPSHOT_VERSION + 1 }),
+    /newer than supported/,
+  );
+});
+
+test("A store file from a newer server stops startup and is kept", () =>
+  withStoreFile((file, dir) => {
+    const newer = { ...V1_SNAPSHOT, version: SNAPSHOT_VERSION + 1 };
+    writeFileSync(file, JSON.stringify(newer));
+    assert.throws(
+      () => dreamer({ store: new JsonFileStore(file) }),
+      new RegExp(
+        `snapshot version ${SNAPSHOT_VERSION + 1}, newer than this server's`,
+      ),
+    );
+    assert.deepEqual(readdirSync(dir), ["sessions.json"]);
+  }));
+
+test("A store file of the wrong shape is moved aside", () => {
+  const current = migrateSnapshot(structuredClone(V1_SNAPSHOT));
+  const { branches, ...branchless } = current.sessions[0];
+  for (const snapshot of [
+    { version: SNAPSHOT_VERSION },
+    { ...current, sessions: [branchless] },
+  ]) {
+    withStoreFile((file, dir) => {
+      writeFileSync(file, JSON.stringify(snapshot));
+      const server = dreamer({ store: new JsonFileStore(file) });
+      assert.deepEqual(sessionIds(server), []);
+      assert.equal(readdirSync(dir).length, 1);
+      assert.match(readdirSync(dir)[0], /^sessions\.json\.corrupt-/);
+    });
+  }
+});
+
+test("A corrupt store file is moved aside and the server starts empty", () =>
+  withStoreFile((file, dir) => {
+    writeFileSync(file, '{"version": 13, "sessions": [');
+    const server = dreamer({ store: new JsonFileStore(file) });
+    assert.deepEqual(sessionIds(server), []);
+    assert.equal(existsSync(file), false);
+    assert.equal(
+      readdirSync(dir).filter((f) => f.startsWith("sessions.json.corrupt-"))
+        .length,
+      1,
+    );
+
+    server.dream({ concept: "fresh start" });
+    assert.equal(existsSync(file), true);
+  }));
+
+// =========================================================================
+// RECORDING
+// =========================================================================
+
+test("Recordings replay with the scoring and render the run used", () =>
+  withFile("run.jsonl", "", (file) => {
+    const server = dreamer({
+      recorder: new JsonLinesRecorder(file),
+      seed: "tides",
+      scoring: scoringProfile("eager"),
+      render: "compact",
+    });
+    server.check(STUCK_CHECK);
+    server.dream({ concept: "harbor" });
+
+    const [{ header }] = loadRecording(file);
+    assert.equal(header.recording, RECORDING_VERSION);
+    assert.deepEqual(header.scoring, PRESETS.eager);
+    assert.equal(header.render, "compact");
+
+    // Flags don't reach the replay; the environment would say default, rich
+    const replay = withEnv(
+      { DREAM_SCORING: undefined, DREAM_RENDER: undefined },
+      () => spawnSync("node", ["dist/replay.js", file], { encoding: "utf8" }),
+    );
+    assert.equal(replay.status, 0, replay.stdout + replay.stderr);
+  }));
+
+test("Version 1 headers still load; version 2 ones need the settings", () => {
+  const header = { seed: "tides", startedAt: "2026-01-05T10:00:00.000Z" };
+  const [old] = parseRecording(JSON.stringify({ recording: 1, ...header }));
+  assert.equal(old.header.scoring, undefined);
+  assert.throws(
+    () => parseRecording(JSON.stringify({ recording: 2, ...header })),
+    /needs scoring and render/,
+  );
+});
+
+// =========================================================================
+// RUN
+// =========================================================================
+
+console.log("═".repeat(70));
+console.log("UNIT TEST");
+console.log("═".repeat(70));
+
+let failed = 0;
+for (const [i, { name, run }] of tests.entries()) {
+  try {
+    await run();
+    console.log(`✓ TEST ${i + 1}: ${name}`);
+  } catch (err) {
+    failed++;
+    console.log(`✗ TEST ${i + 1}: ${name}`);
+    console.log(
+      `   ${String(err.stack ?? err)
+        .split("\n")
+        .join("\n   ")}`,
+    );
+  }
+}
+
+console.log("\n" + "═".repeat(70));
+console.log(`${tests.length - failed} of ${tests.length} passed`);
+console.log("═".repeat(70));
+process.exitCode = failed > 0 ? 1 : 0;